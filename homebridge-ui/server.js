@@ -1,7 +1,12 @@
 const { HomebridgePluginUiServer } = require('@homebridge/plugin-ui-utils');
 const { Bonjour } = require('bonjour-service');
+const fs = require('fs');
 const http = require('http');
+const path = require('path');
 const { parseStringPromise } = require('xml2js');
+const {
+  audioUrl, browseContentDirectory, discoverMediaServers, getMediaServer, miniDlnaControlUrl,
+} = require('../dist/contentDirectory');
 
 class SoundTouchUiServer extends HomebridgePluginUiServer {
   constructor() {
@@ -13,6 +18,7 @@ class SoundTouchUiServer extends HomebridgePluginUiServer {
     // Register NAS/DLNA browsing endpoints
     this.onRequest('/getMediaServers', this.getMediaServers.bind(this));
     this.onRequest('/browseNas', this.browseNas.bind(this));
+    this.onRequest('/browseLocal', this.browseLocal.bind(this));
 
     // Ready
     this.ready();
@@ -88,11 +94,30 @@ class SoundTouchUiServer extends HomebridgePluginUiServer {
 
   // Get available DLNA media servers from a SoundTouch device
   async getMediaServers(payload) {
-    const { host } = payload;
+    const { host, musicDirectory } = payload;
     if (!host) {
       return { error: 'No host provided' };
     }
 
+    const result = await this.getDeviceMediaServers(host);
+    // Servers the speaker does not list (or lists without description URL) are found via SSDP
+    const discovered = await discoverMediaServers().catch(() => []);
+    for (const server of discovered) {
+      const listed = result.servers.find(s => s.id === server.id);
+      if (listed) {
+        listed.location = listed.location || server.location;
+      } else {
+        result.servers.push({ id: server.id, name: server.name, ip: server.ip, location: server.location });
+      }
+    }
+    // The plugin's own music directory is offered as an additional server
+    if (musicDirectory) {
+      result.servers.unshift({ id: 'local', name: 'Homebridge', ip: musicDirectory });
+    }
+    return result;
+  }
+
+  getDeviceMediaServers(host) {
     return new Promise((resolve) => {
       const req = http.get(`http://${host}:8090/listMediaServers`, { timeout: 5000 }, (res) => {
         let data = '';
@@ -116,6 +141,7 @@ class SoundTouchUiServer extends HomebridgePluginUiServer {
                 id: s.$.id,
                 name: s.$.friendly_name,
                 ip: s.$.ip,
+                location: s.$.location,
               })),
             });
           } catch (error) {
@@ -134,113 +160,88 @@ class SoundTouchUiServer extends HomebridgePluginUiServer {
 
   // Browse NAS/DLNA content directly via UPnP SOAP
   async browseNas(payload) {
-    const { serverIp, objectId } = payload;
-    if (!serverIp) {
+    const { serverIp, location, objectId } = payload;
+    if (!serverIp && !location) {
       return { error: 'No serverIp provided' };
     }
 
     // Default to root (objectId "0")
     const browseObjectId = objectId || '0';
 
-    return new Promise((resolve) => {
-      // UPnP SOAP request to browse DLNA content
-      const soapBody = `<?xml version="1.0"?>
-<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" s:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/">
-  <s:Body>
-    <u:Browse xmlns:u="urn:schemas-upnp-org:service:ContentDirectory:1">
-      <ObjectID>${browseObjectId}</ObjectID>
-      <BrowseFlag>BrowseDirectChildren</BrowseFlag>
-      <Filter>*</Filter>
-      <StartingIndex>0</StartingIndex>
-      <RequestedCount>200</RequestedCount>
-      <SortCriteria></SortCriteria>
-    </u:Browse>
-  </s:Body>
-</s:Envelope>`;
-
-      const options = {
-        hostname: serverIp,
-        port: 8200,  // MiniDLNA default port
-        path: '/ctl/ContentDir',
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/xml; charset="utf-8"',
-          'SOAPAction': '"urn:schemas-upnp-org:service:ContentDirectory:1#Browse"',
-          'Content-Length': Buffer.byteLength(soapBody),
-        },
-        timeout: 10000,
-      };
-
-      const req = http.request(options, (res) => {
-        let data = '';
-        res.on('data', chunk => data += chunk);
-        res.on('end', async () => {
-          try {
-            const result = await parseStringPromise(data, { explicitArray: false });
-            const browseResponse = result['s:Envelope']?.['s:Body']?.['u:BrowseResponse'];
-
-            if (!browseResponse || !browseResponse.Result) {
-              resolve({ items: [], objectId: browseObjectId });
-              return;
-            }
-
-            // Parse the DIDL-Lite XML inside Result
-            const didlResult = await parseStringPromise(browseResponse.Result, { explicitArray: false });
-            const didl = didlResult['DIDL-Lite'];
-
-            if (!didl) {
-              resolve({ items: [], objectId: browseObjectId });
-              return;
-            }
-
-            const items = [];
-
-            // Process containers (folders)
-            if (didl.container) {
-              const containers = Array.isArray(didl.container) ? didl.container : [didl.container];
-              for (const c of containers) {
-                // Skip system folders like @eaDir
-                if (c['dc:title']?.startsWith('@')) continue;
-                items.push({
-                  name: c['dc:title'] || 'Unknown',
-                  type: 'dir',
-                  objectId: c.$.id,
-                  parentId: c.$.parentID,
-                });
-              }
-            }
+    try {
+      // Control URL from the device description, MiniDLNA's fixed one without it
+      const controlUrl = location
+        ? (await getMediaServer(location)).controlUrl
+        : miniDlnaControlUrl(serverIp);
+
+      const items = [];
+      let start = 0;
+      let total = Infinity;
+      while (start < total && items.length < 2000) {
+        const page = await browseContentDirectory(controlUrl, browseObjectId, start, 200);
+        total = page.total;
+        if (page.returned === 0) break;
+        start += page.returned;
+
+        for (const object of page.objects) {
+          if (object.kind === 'container') {
+            // Skip system folders like @eaDir
+            if (object.title.startsWith('@')) continue;
+            items.push({
+              name: object.title || 'Unknown',
+              type: 'dir',
+              objectId: object.id,
+              parentId: object.parentId,
+            });
+          } else if (audioUrl(object)) {
+            items.push({
+              name: object.title || 'Unknown',
+              type: 'track',
+              objectId: object.id,
+              parentId: object.parentId,
+              artist: object.artist || '',
+              album: object.album || '',
+            });
+          }
+        }
+      }
 
-            // Process items (tracks)
-            if (didl.item) {
-              const tracks = Array.isArray(didl.item) ? didl.item : [didl.item];
-              for (const t of tracks) {
-                items.push({
-                  name: t['dc:title'] || 'Unknown',
-                  type: 'track',
-                  objectId: t.$.id,
-                  parentId: t.$.parentID,
-                  artist: t['upnp:artist'] || t['dc:creator'] || '',
-                  album: t['upnp:album'] || '',
-                });
-              }
-            }
+      return { items, objectId: browseObjectId };
+    } catch (error) {
+      return { error: error.message, items: [] };
+    }
+  }
 
-            resolve({ items, objectId: browseObjectId });
-          } catch (error) {
-            resolve({ error: error.message, items: [] });
-          }
-        });
-      });
+  // Browse the music directory of the built-in media server
+  async browseLocal(payload) {
+    const { musicDirectory, objectId } = payload;
+    if (!musicDirectory) {
+      return { error: 'No musicDirectory configured', items: [] };
+    }
 
-      req.on('error', (err) => resolve({ error: err.message, items: [] }));
-      req.on('timeout', () => {
-        req.destroy();
-        resolve({ error: 'Timeout', items: [] });
-      });
+    const root = path.resolve(musicDirectory);
+    const dir = path.resolve(root, objectId || '');
+    if (dir !== root && !dir.startsWith(root + path.sep)) {
+      return { error: 'Path outside of musicDirectory', items: [] };
+    }
 
-      req.write(soapBody);
-      req.end();
-    });
+    try {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      const items = entries
+        .filter(e => !e.name.startsWith('.') && !e.name.startsWith('@'))
+        .filter(e => e.isDirectory() || /\.(mp3|flac|aac|m4a|wav|ogg)$/i.test(e.name))
+        .sort((a, b) => (a.isDirectory() === b.isDirectory()
+          ? a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+          : a.isDirectory() ? -1 : 1))
+        .map(e => ({
+          name: e.name,
+          type: e.isDirectory() ? 'dir' : 'track',
+          objectId: path.relative(root, path.join(dir, e.name)).split(path.sep).join('/'),
+        }));
+      return { items, objectId: objectId || '' };
+    } catch (error) {
+      return { error: error.message, items: [] };
+    }
   }
 }
 
@@ -0,0 +1,122 @@
+import { Logger } from 'homebridge';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AlarmConfig } from './platform';
+import { describeError } from './soundtouchErrors';
+
+// Implemented by SoundTouchAccessory
+export interface AlarmTarget {
+  playAlarm(alarm: AlarmConfig): Promise<void>;
+}
+
+interface ScheduledAlarm {
+  alarm: AlarmConfig;
+  target: AlarmTarget;
+  label: string;
+  lastFired?: string;
+}
+
+// Fires the configured alarms of all devices. The on/off state set from
+// HomeKit is kept in the Homebridge storage directory, so it survives restarts.
+export class AlarmScheduler {
+  private readonly alarms: Map<string, ScheduledAlarm> = new Map();
+  private readonly statePath: string;
+  private enabledState: Record<string, boolean> = {};
+  private timer?: ReturnType<typeof setInterval>;
+  private static readonly CHECK_INTERVAL = 15_000;
+
+  constructor(
+    private readonly log: Logger,
+    storagePath: string,
+  ) {
+    this.statePath = path.join(storagePath, 'bose-soundtouch-alarms.json');
+    this.loadState();
+  }
+
+  add(id: string, alarm: AlarmConfig, target: AlarmTarget, label: string): void {
+    this.alarms.set(id, { alarm, target, label });
+  }
+
+  remove(id: string): void {
+    this.alarms.delete(id);
+  }
+
+  isEnabled(id: string): boolean {
+    const alarm = this.alarms.get(id)?.alarm;
+    return this.enabledState[id] ?? alarm?.enabled ?? true;
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const scheduled = this.alarms.get(id);
+    this.enabledState[id] = enabled;
+    this.saveState();
+    if (scheduled) {
+      this.log.info(`Alarm ${scheduled.label} ${enabled ? 'enabled' : 'disabled'}`);
+    }
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.check(), AlarmScheduler.CHECK_INTERVAL);
+    this.check();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private check(now = new Date()): void {
+    const time = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+    const today = now.toDateString();
+
+    for (const [id, scheduled] of this.alarms) {
+      const { alarm } = scheduled;
+      if (normalizeTime(alarm.time) !== time || !this.isEnabled(id)) {
+        continue;
+      }
+      if (alarm.days?.length && !alarm.days.includes(now.getDay())) {
+        continue;
+      }
+      // Checked several times per minute - fire only once
+      const key = `${today} ${time}`;
+      if (scheduled.lastFired === key) {
+        continue;
+      }
+      scheduled.lastFired = key;
+
+      this.log.info(`Alarm ${scheduled.label} ringing`);
+      scheduled.target.playAlarm(alarm).catch((error) => {
+        this.log.error(`Alarm ${scheduled.label} failed: ${describeError(error)}`);
+      });
+    }
+  }
+
+  private loadState(): void {
+    try {
+      if (fs.existsSync(this.statePath)) {
+        this.enabledState = JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+      }
+    } catch (error) {
+      this.log.warn('Failed to read alarm state:', error);
+    }
+  }
+
+  private saveState(): void {
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify(this.enabledState, null, 2));
+    } catch (error) {
+      this.log.error('Failed to save alarm state:', error);
+    }
+  }
+}
+
+// "7:05" -> "07:05"
+export function normalizeTime(time: string): string {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time?.trim() || '');
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : '';
+}
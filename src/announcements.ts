@@ -0,0 +1,115 @@
+import { Service } from 'homebridge';
+import { SoundTouchPlatform, AnnouncementConfig } from './platform';
+import { SoundTouchAccessory } from './soundtouchAccessory';
+import { MediaServer } from './mediaServer';
+import { describeError } from './soundtouchErrors';
+
+// Plays configured clips (doorbell, washing machine done, ...) on one or more
+// speakers. Each announcement is a switch on a bridged "Durchsagen" accessory
+// that turns itself off again when the clip has finished everywhere.
+export class AnnouncementManager {
+  private readonly playing: Set<string> = new Set();
+
+  constructor(
+    private readonly platform: SoundTouchPlatform,
+    private readonly mediaServer: MediaServer,
+  ) {}
+
+  setup(): void {
+    const announcements = (this.platform.config.announcements || []).filter(a => a.name && a.file);
+    if (announcements.length === 0) {
+      return;
+    }
+
+    const accessory = this.platform.getVirtualAccessory('announcements', 'Durchsagen');
+
+    // Rebuild switches from config
+    for (const service of accessory.services.filter(s => s.UUID === this.platform.Service.Switch.UUID)) {
+      accessory.removeService(service);
+    }
+
+    // Keyed on the name, so the switch and its automations survive reordering the list
+    const keys = new Set<string>();
+    announcements.forEach((announcement, index) => {
+      const key = announcement.name.toLowerCase().replace(/[^a-z0-9äöüß]+/g, '-');
+      const subtype = keys.has(key) ? `announcement-${key}-${index + 1}` : `announcement-${key}`;
+      keys.add(key);
+      const service = accessory.addService(this.platform.Service.Switch, announcement.name, subtype);
+      service
+        .setCharacteristic(this.platform.Characteristic.Name, announcement.name)
+        .addCharacteristic(this.platform.Characteristic.ConfiguredName)
+        .setValue(announcement.name);
+
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.playing.has(announcement.name))
+        .onSet((value) => {
+          if (value) {
+            this.trigger(announcement, service);
+          }
+        });
+    });
+
+    this.platform.log.info(`Setup ${announcements.length} announcement(s)`);
+  }
+
+  // Play without waiting; the switch is reset when done
+  private trigger(announcement: AnnouncementConfig, service: Service): void {
+    this.play(announcement)
+      .catch((error) => {
+        this.platform.log.error(`Announcement "${announcement.name}" failed: ${describeError(error)}`);
+      })
+      .finally(() => {
+        service.updateCharacteristic(this.platform.Characteristic.On, false);
+      });
+  }
+
+  async play(announcement: AnnouncementConfig): Promise<void> {
+    if (this.playing.has(announcement.name)) {
+      return;
+    }
+    this.playing.add(announcement.name);
+
+    try {
+      const targets = await this.getTargets(announcement);
+      if (targets.length === 0) {
+        throw new Error('no matching speaker');
+      }
+
+      const isUrl = /^https?:\/\//i.test(announcement.file);
+      if (!isUrl) {
+        await this.mediaServer.start();
+      }
+      const filePath = isUrl ? '' : this.mediaServer.addFile(announcement.file);
+      const maxDuration = (announcement.maxDuration || 60) * 1000;
+
+      await Promise.all(targets.map(async (target) => {
+        const url = isUrl ? announcement.file : this.mediaServer.getUrl(filePath, target.getHost());
+        try {
+          await target.announce(url, announcement.name, announcement.volume, maxDuration);
+        } catch (error) {
+          this.platform.log.error(
+            `Announcement "${announcement.name}" on ${target.getAccessoryName()} failed: ${describeError(error)}`,
+          );
+        }
+      }));
+    } finally {
+      this.playing.delete(announcement.name);
+    }
+  }
+
+  // Configured speakers; zone members are left out when their master plays the clip anyway
+  private async getTargets(announcement: AnnouncementConfig): Promise<SoundTouchAccessory[]> {
+    const wanted = (announcement.devices || []).map(d => d.toLowerCase());
+    const speakers = this.platform.getAllAccessories().filter(a => wanted.length === 0
+      || wanted.includes(a.getAccessoryName().toLowerCase())
+      || wanted.includes(a.getHost()));
+
+    const macs = new Set(speakers.map(a => a.getDeviceInfo()?.macAddress).filter(Boolean));
+    const zones = await Promise.all(speakers.map(a => a.getClient().getZone().catch(() => null)));
+    return speakers.filter((speaker, index) => {
+      const zone = zones[index];
+      const isSlave = zone && zone.members.length > 0 && zone.master !== speaker.getDeviceInfo()?.macAddress;
+      return !(isSlave && macs.has(zone.master));
+    });
+  }
+}
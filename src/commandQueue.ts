@@ -0,0 +1,64 @@
+interface QueueEntry {
+  key?: string;
+  task: () => Promise<unknown>;
+  waiters: Array<{ resolve: (value: unknown) => void; reject: (error: unknown) => void }>;
+}
+
+// Runs device commands one at a time. Commands enqueued with a coalesce key
+// replace a still-waiting command with the same key (e.g. a burst of volume
+// changes from dragging the slider only sends the last value).
+export class CommandQueue {
+  private readonly entries: QueueEntry[] = [];
+  private running = false;
+
+  enqueue<T>(task: () => Promise<T>, coalesceKey?: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const waiter = { resolve: resolve as (value: unknown) => void, reject };
+
+      const pending = coalesceKey !== undefined
+        ? this.entries.find((e) => e.key === coalesceKey)
+        : undefined;
+      if (pending) {
+        // Superseded: everybody waiting for the old value gets the result of the new one
+        pending.task = task;
+        pending.waiters.push(waiter);
+      } else {
+        this.entries.push({ key: coalesceKey, task, waiters: [waiter] });
+      }
+
+      this.process();
+    });
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  clear(reason: Error): void {
+    const dropped = this.entries.splice(0);
+    for (const entry of dropped) {
+      for (const waiter of entry.waiters) {
+        waiter.reject(reason);
+      }
+    }
+  }
+
+  private async process(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    while (this.entries.length > 0) {
+      const entry = this.entries.shift()!;
+      try {
+        const result = await entry.task();
+        entry.waiters.forEach((w) => w.resolve(result));
+      } catch (error) {
+        entry.waiters.forEach((w) => w.reject(error));
+      }
+    }
+
+    this.running = false;
+  }
+}
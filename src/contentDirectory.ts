@@ -0,0 +1,292 @@
+import * as dgram from 'dgram';
+import * as http from 'http';
+import { parseStringPromise, processors } from 'xml2js';
+import { SoundTouchTimeoutError, parseSoapFault, toNetworkError } from './soundtouchErrors';
+
+// DLNA/UPnP media servers (MiniDLNA, Synology, Plex, Jellyfin, Serviio, Twonky, UMS, ...)
+// and their ContentDirectory service.
+
+export interface MediaServerInfo {
+  id: string;          // UDN without "uuid:", as listed by the speaker in /listMediaServers
+  name: string;
+  ip: string;
+  location: string;    // URL of the device description
+  controlUrl: string;  // ContentDirectory control URL
+}
+
+export interface DidlResource {
+  url: string;
+  mimeType: string;    // From protocolInfo, e.g. audio/mpeg
+  duration?: number;   // Seconds
+}
+
+// Container (folder) or item (track, picture, ...) of a DIDL-Lite document
+export interface DidlObject {
+  kind: 'container' | 'item';
+  id: string;
+  parentId: string;
+  title: string;
+  upnpClass: string;   // e.g. object.container.album.musicAlbum, object.item.audioItem.musicTrack
+  artist?: string;
+  album?: string;
+  trackNumber?: number;
+  albumArtUrl?: string;
+  resources: DidlResource[];
+}
+
+export interface BrowseResult {
+  objects: DidlObject[];
+  returned: number;
+  total: number;
+}
+
+const SSDP_ADDRESS = '239.255.255.250';
+const SSDP_PORT = 1900;
+const MEDIA_SERVER_TYPE = 'urn:schemas-upnp-org:device:MediaServer:1';
+const CONTENT_DIRECTORY_TYPE = 'urn:schemas-upnp-org:service:ContentDirectory:';
+const REQUEST_TIMEOUT = 10_000;
+const AUDIO_EXTENSIONS = /\.(mp3|flac|wav|m4a|ogg|oga|aac|wma|aif|aiff|alac|opus)(\?|$)/i;
+
+// MiniDLNA (and Synology's media server based on it) without a device description
+export function miniDlnaControlUrl(ip: string): string {
+  return `http://${ip}:8200/ctl/ContentDir`;
+}
+
+// Media servers answering an SSDP M-SEARCH within the timeout
+export async function discoverMediaServers(timeout = 3_000): Promise<MediaServerInfo[]> {
+  const locations = await new Promise<Set<string>>((resolve) => {
+    const found = new Set<string>();
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    let closed = false;
+    let resendTimer: ReturnType<typeof setTimeout> | undefined;
+    const finish = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearTimeout(timer);
+      clearTimeout(resendTimer);
+      socket.close();
+      resolve(found);
+    };
+    const timer = setTimeout(finish, timeout);
+
+    socket.on('message', (message) => {
+      const location = /^location:\s*(\S+)/im.exec(message.toString())?.[1];
+      if (location) {
+        found.add(location);
+      }
+    });
+    socket.on('error', finish);
+    socket.bind(0, () => {
+      const search = Buffer.from([
+        'M-SEARCH * HTTP/1.1',
+        `HOST: ${SSDP_ADDRESS}:${SSDP_PORT}`,
+        'MAN: "ssdp:discover"',
+        `MX: ${Math.max(1, Math.floor(timeout / 1000) - 1)}`,
+        `ST: ${MEDIA_SERVER_TYPE}`,
+        '', '',
+      ].join('\r\n'));
+      // Sent twice, UDP gets lost. A failed send only means fewer answers.
+      socket.send(search, SSDP_PORT, SSDP_ADDRESS, () => undefined);
+      resendTimer = setTimeout(() => {
+        if (!closed) {
+          socket.send(search, SSDP_PORT, SSDP_ADDRESS, () => undefined);
+        }
+      }, 500);
+    });
+  });
+
+  const servers = await Promise.all(Array.from(locations).map(location => getMediaServer(location).catch(() => undefined)));
+  const byId = new Map<string, MediaServerInfo>();
+  for (const server of servers) {
+    if (server && !byId.has(server.id)) {
+      byId.set(server.id, server);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+// Reads the device description at location and finds the ContentDirectory service
+export async function getMediaServer(location: string): Promise<MediaServerInfo> {
+  const { statusCode, data } = await request(location);
+  if (statusCode !== 200) {
+    throw new Error(`Device description ${location}: HTTP ${statusCode}`);
+  }
+
+  const description = await parseStringPromise(data, {
+    explicitArray: false, tagNameProcessors: [processors.stripPrefix],
+  });
+  const root = description?.root;
+  const baseUrl = text(root?.URLBase) || location;
+
+  // The ContentDirectory may belong to an embedded device (e.g. some NAS firmwares)
+  type Device = { UDN?: string; friendlyName?: string; serviceList?: { service?: unknown }; deviceList?: { device?: unknown } };
+  const devices: Device[] = [];
+  const collect = (device: Device | Device[] | undefined) => {
+    for (const d of toArray(device)) {
+      devices.push(d);
+      collect(d.deviceList?.device as Device | Device[] | undefined);
+    }
+  };
+  collect(root?.device);
+
+  for (const device of devices) {
+    const services = toArray(device.serviceList?.service as Array<Record<string, string>> | undefined);
+    const service = services.find(s => text(s.serviceType).startsWith(CONTENT_DIRECTORY_TYPE));
+    if (service && text(service.controlURL)) {
+      return {
+        id: text(device.UDN).replace(/^uuid:/i, ''),
+        name: text(device.friendlyName) || new URL(location).hostname,
+        ip: new URL(location).hostname,
+        location,
+        controlUrl: new URL(text(service.controlURL), baseUrl).toString(),
+      };
+    }
+  }
+  throw new Error(`${location} has no ContentDirectory service`);
+}
+
+// One page of the direct children of a container
+export async function browseContentDirectory(
+  controlUrl: string, objectId: string, start = 0, count = 200, timeout = REQUEST_TIMEOUT,
+): Promise<BrowseResult> {
+  const soapBody = '<?xml version="1.0"?>' +
+    '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" ' +
+    's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/">' +
+    '<s:Body>' +
+    '<u:Browse xmlns:u="urn:schemas-upnp-org:service:ContentDirectory:1">' +
+    `<ObjectID>${xmlEscape(objectId)}</ObjectID>` +
+    '<BrowseFlag>BrowseDirectChildren</BrowseFlag>' +
+    `<Filter>*</Filter><StartingIndex>${start}</StartingIndex>` +
+    `<RequestedCount>${count}</RequestedCount>` +
+    '<SortCriteria></SortCriteria>' +
+    '</u:Browse></s:Body></s:Envelope>';
+
+  const host = new URL(controlUrl).hostname;
+  const { statusCode, data } = await request(controlUrl, soapBody, timeout);
+  if (statusCode >= 400) {
+    throw await parseSoapFault(host, statusCode, data);
+  }
+
+  const envelope = await parseStringPromise(data, {
+    explicitArray: false, ignoreAttrs: true, tagNameProcessors: [processors.stripPrefix],
+  });
+  const response = envelope?.Envelope?.Body?.BrowseResponse;
+  const objects = response?.Result ? await parseDidl(text(response.Result)) : [];
+  const returned = parseInt(text(response?.NumberReturned), 10) || objects.length;
+  return {
+    objects,
+    returned,
+    total: parseInt(text(response?.TotalMatches), 10) || start + returned,
+  };
+}
+
+// Containers first, then items, each in document order
+export async function parseDidl(xml: string): Promise<DidlObject[]> {
+  const result = await parseStringPromise(xml, {
+    explicitArray: true, tagNameProcessors: [processors.stripPrefix],
+  });
+  const didl = result?.['DIDL-Lite'];
+  if (!didl) {
+    return [];
+  }
+
+  type Element = { $?: Record<string, string> } & Record<string, unknown>;
+  const toObject = (kind: DidlObject['kind'], element: Element): DidlObject => {
+    const first = (name: string) => text((element[name] as unknown[] | undefined)?.[0]);
+    const trackNumber = parseInt(first('originalTrackNumber'), 10);
+    return {
+      kind,
+      id: element.$?.id || '',
+      parentId: element.$?.parentID || '',
+      title: first('title'),
+      upnpClass: first('class'),
+      artist: first('artist') || first('creator') || undefined,
+      album: first('album') || undefined,
+      trackNumber: Number.isFinite(trackNumber) ? trackNumber : undefined,
+      albumArtUrl: first('albumArtURI') || undefined,
+      resources: toArray(element.res as Element[] | undefined).map(res => ({
+        url: text(res).trim(),
+        mimeType: (res.$?.protocolInfo || '').split(':')[2] || '',
+        duration: parseDuration(res.$?.duration),
+      })).filter(res => res.url),
+    };
+  };
+
+  return [
+    ...toArray(didl.container as Element[] | undefined).map(c => toObject('container', c)),
+    ...toArray(didl.item as Element[] | undefined).map(i => toObject('item', i)),
+  ];
+}
+
+// HTTP URL of the audio file of an item, undefined for pictures, videos and the like
+export function audioUrl(object: DidlObject): string | undefined {
+  if (object.kind !== 'item' || (object.upnpClass && !object.upnpClass.startsWith('object.item.audioItem'))) {
+    return undefined;
+  }
+  const playable = object.resources.filter(res => /^http:\/\//i.test(res.url));
+  const audio = playable.find(res => res.mimeType.startsWith('audio/'))
+    || playable.find(res => !res.mimeType && AUDIO_EXTENSIONS.test(res.url));
+  return audio?.url;
+}
+
+function request(url: string, body?: string, timeout = REQUEST_TIMEOUT): Promise<{ statusCode: number; data: string }> {
+  const host = new URL(url).hostname;
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, {
+      method: body ? 'POST' : 'GET',
+      timeout,
+      headers: body ? {
+        'Content-Type': 'text/xml; charset="utf-8"',
+        'SOAPAction': '"urn:schemas-upnp-org:service:ContentDirectory:1#Browse"',
+        'Content-Length': Buffer.byteLength(body),
+      } : {},
+    }, (res) => {
+      let data = '';
+      res.setEncoding('utf-8');
+      res.on('data', (chunk) => {
+        data += chunk;
+      });
+      res.on('end', () => resolve({ statusCode: res.statusCode || 0, data }));
+    });
+    req.on('error', (error) => reject(toNetworkError(host, error, timeout)));
+    req.on('timeout', () => req.destroy(new SoundTouchTimeoutError(host, timeout, 'Media server request')));
+    if (body) {
+      req.write(body);
+    }
+    req.end();
+  });
+}
+
+// "H:MM:SS" or "H:MM:SS.mmm"
+function parseDuration(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = value.split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+  return seconds > 0 ? seconds : undefined;
+}
+
+// Element content as parsed by xml2js: a string, or { _: text, $: attributes }
+function text(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object' && '_' in value) {
+    return String((value as { _: unknown })._);
+  }
+  return '';
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function xmlEscape(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,59 @@
+import { Logger } from 'homebridge';
+import { SoundTouchAccessory } from './soundtouchAccessory';
+import { describeError } from './soundtouchErrors';
+
+// One volume for several speakers that scales each of them relative to its own level:
+// at 100 a speaker plays at its base volume, at 50 at half of it. Used by the group
+// volume of a zone master and the master volume of party mode.
+export class GroupVolume {
+  private volume?: number; // Last volume set, undefined until the first step after reset()
+  private readonly baseVolumes: Map<SoundTouchAccessory, number> = new Map(); // Member volume at 100
+  private readonly setVolumes: Map<SoundTouchAccessory, number> = new Map();  // Last volume sent to each member
+
+  constructor(
+    private readonly log: Logger,
+    private readonly name: string,
+  ) {}
+
+  // As last set while no member changed on its own, otherwise the loudest member
+  get(speakers: SoundTouchAccessory[]): number {
+    if (this.volume !== undefined && speakers.every(s => this.setVolumes.get(s) === s.getVolume())) {
+      return this.volume;
+    }
+    return Math.max(0, ...speakers.map(s => s.getVolume()));
+  }
+
+  // A member that fails is logged and skipped, the others still follow
+  async set(
+    volume: number,
+    speakers: SoundTouchAccessory[],
+    apply: (speaker: SoundTouchAccessory, volume: number) => Promise<void>,
+  ): Promise<void> {
+    const previous = this.volume ?? this.get(speakers);
+    this.volume = volume;
+    await Promise.all(speakers.map(async (speaker) => {
+      // New member, or changed on the speaker itself since the last step: take its level relative to the
+      // previous volume. Otherwise the stored ratio, so rounding or a stop at 0 does not lose it.
+      let base = this.baseVolumes.get(speaker);
+      if (base === undefined || speaker.getVolume() !== this.setVolumes.get(speaker)) {
+        // All silent: nothing to scale, every member gets the new level
+        base = previous > 0 ? speaker.getVolume() * 100 / previous : 100;
+        this.baseVolumes.set(speaker, base);
+      }
+      const target = Math.min(100, Math.round(base * volume / 100));
+      this.setVolumes.set(speaker, target);
+      try {
+        await apply(speaker, target);
+      } catch (error) {
+        this.log.warn(`${this.name}: volume of ${speaker.getAccessoryName()} failed: ${describeError(error)}`);
+      }
+    }));
+  }
+
+  // New members: levels are taken again at the next step
+  reset(): void {
+    this.volume = undefined;
+    this.baseVolumes.clear();
+    this.setVolumes.clear();
+  }
+}
@@ -0,0 +1,82 @@
+import { Logger } from 'homebridge';
+import { IcyReader, openStream } from './streamRelay';
+import { describeError } from './soundtouchErrors';
+
+export interface StreamTitle {
+  artist: string;
+  title: string;
+  raw: string;     // StreamTitle as sent by the station
+}
+
+// Follows the ICY metadata (StreamTitle) of a Shoutcast/Icecast stream on a
+// connection of its own. The audio is read and dropped.
+export class IcyMetadataMonitor {
+  private controller?: AbortController;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private static readonly MAX_RETRIES = 5;
+  private static readonly RETRY_DELAY = 5_000;
+
+  constructor(private readonly log: Logger) {}
+
+  start(url: string, onTitle: (title: StreamTitle) => void): void {
+    this.stop();
+    const controller = new AbortController();
+    this.controller = controller;
+    let lastTitle = '';
+    let failures = 0;
+
+    const connect = async () => {
+      try {
+        const response = await openStream(url, controller.signal);
+        const interval = parseInt(String(response.headers['icy-metaint'] || ''), 10) || 0;
+        if (!interval) {
+          this.log.debug(`${url} sends no ICY metadata`);
+          response.destroy();
+          return;
+        }
+
+        failures = 0;
+        const reader = new IcyReader(interval, () => undefined, (metadata) => {
+          const title = parseStreamTitle(metadata);
+          if (title && title.raw !== lastTitle) {
+            lastTitle = title.raw;
+            onTitle(title);
+          }
+        });
+        response.on('data', (chunk: Buffer) => reader.push(chunk));
+        await new Promise<void>((resolve) => {
+          response.on('close', resolve);
+          response.on('error', () => resolve());
+        });
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          this.log.debug(`ICY metadata of ${url}: ${describeError(error)}`);
+        }
+      }
+
+      if (!controller.signal.aborted && ++failures <= IcyMetadataMonitor.MAX_RETRIES) {
+        this.retryTimer = setTimeout(connect, IcyMetadataMonitor.RETRY_DELAY * failures);
+      }
+    };
+    connect();
+  }
+
+  stop(): void {
+    clearTimeout(this.retryTimer);
+    this.controller?.abort();
+    this.controller = undefined;
+  }
+}
+
+// "StreamTitle='Artist - Title';StreamUrl='';" -> { artist, title }
+export function parseStreamTitle(metadata: string): StreamTitle | undefined {
+  const match = /StreamTitle='([\s\S]*?)';(?=\s*(?:Stream\w+=|$))/.exec(metadata.replace(/\0+$/, ''));
+  const raw = match?.[1].trim();
+  if (!raw) {
+    return undefined;
+  }
+  const separator = raw.indexOf(' - ');
+  return separator > 0
+    ? { artist: raw.slice(0, separator).trim(), title: raw.slice(separator + 3).trim(), raw }
+    : { artist: '', title: raw, raw };
+}
@@ -0,0 +1,278 @@
+import { Logger } from 'homebridge';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { StreamRelay, isStreamReachable } from './streamRelay';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.aac': 'audio/aac',
+  '.m4a': 'audio/mp4',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+};
+
+const PLAIN_HTTP_RECHECK = 10 * 60_000; // A failed check may be a network hiccup, try again after this
+
+// Small HTTP server inside the plugin, so the speakers can fetch local
+// files (announcement chimes, the music directory) and HTTPS streams via DLNA.
+export class MediaServer {
+  private server: http.Server | null = null;
+  private readonly files: Map<string, string> = new Map();
+  private readonly relays: Map<string, StreamRelay> = new Map();
+  private readonly plainHttpStreams: Map<string, { supported: boolean; checkedAt: number }> = new Map();
+  private readonly musicDirectory?: string;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly port = 8095,
+    private readonly address?: string,
+    musicDirectory?: string,
+  ) {
+    this.musicDirectory = musicDirectory ? path.resolve(musicDirectory) : undefined;
+  }
+
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  get hasMusicDirectory(): boolean {
+    return this.musicDirectory !== undefined;
+  }
+
+  start(): Promise<void> {
+    if (this.server) {
+      return Promise.resolve();
+    }
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', (error) => {
+        this.server = null;
+        reject(error);
+      });
+      server.listen(this.port, () => {
+        // Without a listener a later server error would crash Homebridge
+        server.on('error', (error) => this.log.error('Media server error:', error));
+        this.log.info(`Media server listening on port ${this.port}`);
+        resolve();
+      });
+    });
+  }
+
+  stop(): void {
+    // Relayed streams never end on their own
+    this.server?.closeAllConnections();
+    this.server?.close();
+    this.server = null;
+  }
+
+  // Make a local file available, returns the path to use with getUrl()
+  addFile(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    const id = crypto.createHash('sha1').update(resolved).digest('hex').slice(0, 12);
+    this.files.set(id, resolved);
+    return `/files/${id}/${encodeURIComponent(path.basename(resolved))}`;
+  }
+
+  // Relay an HTTPS stream over plain HTTP, returns the path to use with getUrl()
+  addRelay(url: string): string {
+    const id = crypto.createHash('sha1').update(url).digest('hex').slice(0, 12);
+    if (!this.relays.has(id)) {
+      this.relays.set(id, new StreamRelay(this.log, url));
+    }
+    return `/relay/${id}`;
+  }
+
+  // Whether the station still serves the stream with https:// replaced by http:// (a yes is kept, a no rechecked later)
+  async supportsPlainHttp(url: string): Promise<boolean> {
+    const cached = this.plainHttpStreams.get(url);
+    if (cached && (cached.supported || Date.now() - cached.checkedAt < PLAIN_HTTP_RECHECK)) {
+      return cached.supported;
+    }
+    const supported = await isStreamReachable(url.trim().replace(/^https:\/\//i, 'http://'));
+    this.plainHttpStreams.set(url, { supported, checkedAt: Date.now() });
+    return supported;
+  }
+
+  // Audio files of a file or folder (recursive) in the music directory, in playback order
+  async listTracks(relativePath: string): Promise<Array<{ path: string; title: string }>> {
+    const root = this.resolveMusicPath(relativePath);
+    if (!root) {
+      throw new Error(`${relativePath} is not inside the music directory`);
+    }
+
+    const tracks: Array<{ path: string; title: string }> = [];
+    const walk = async (filePath: string): Promise<void> => {
+      const stats = await fs.promises.stat(filePath);
+      if (stats.isFile()) {
+        if (CONTENT_TYPES[path.extname(filePath).toLowerCase()]) {
+          tracks.push({
+            path: this.getMusicUrlPath(filePath),
+            title: path.basename(filePath, path.extname(filePath)),
+          });
+        }
+        return;
+      }
+      const entries = (await fs.promises.readdir(filePath))
+        .filter(name => !name.startsWith('.') && !name.startsWith('@'))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+      for (const name of entries) {
+        await walk(path.join(filePath, name));
+      }
+    };
+    await walk(root);
+    return tracks;
+  }
+
+  // URL under which the speaker at speakerHost reaches the given path
+  getUrl(urlPath: string, speakerHost: string): string {
+    return `http://${this.address || getLocalAddress(speakerHost)}:${this.port}${urlPath}`;
+  }
+
+  // Absolute path inside the music directory, undefined if it points outside
+  private resolveMusicPath(relativePath: string): string | undefined {
+    if (!this.musicDirectory) {
+      return undefined;
+    }
+    const resolved = path.resolve(this.musicDirectory, relativePath.replace(/^[/\\]+/, ''));
+    if (resolved !== this.musicDirectory && !resolved.startsWith(this.musicDirectory + path.sep)) {
+      return undefined;
+    }
+    return resolved;
+  }
+
+  private getMusicUrlPath(filePath: string): string {
+    const relative = path.relative(this.musicDirectory!, filePath).split(path.sep);
+    return `/music/${relative.map(encodeURIComponent).join('/')}`;
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Allow': 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    const urlPath = (req.url || '').split('?')[0];
+    const relay = /^\/relay\/([0-9a-f]+)$/.exec(urlPath);
+    if (relay && this.relays.has(relay[1])) {
+      this.relays.get(relay[1])!.serve(req, res);
+      return;
+    }
+
+    let filePath: string | undefined;
+    const fileMatch = /^\/files\/([0-9a-f]+)\//.exec(urlPath);
+    if (fileMatch) {
+      filePath = this.files.get(fileMatch[1]);
+    } else if (urlPath.startsWith('/music/')) {
+      // Only audio files from the music directory
+      try {
+        filePath = this.resolveMusicPath(decodeURIComponent(urlPath.slice('/music/'.length)));
+      } catch {
+        filePath = undefined;
+      }
+      if (filePath && !CONTENT_TYPES[path.extname(filePath).toLowerCase()]) {
+        filePath = undefined;
+      }
+    }
+    if (!filePath) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    fs.stat(filePath, (error, stats) => {
+      if (error || !stats.isFile()) {
+        this.log.warn(`Media server: cannot read ${filePath}`);
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      this.sendFile(req, res, filePath!, stats.size);
+    });
+  }
+
+  // Full file or the requested byte range (the speakers seek and resume with Range requests)
+  private sendFile(req: http.IncomingMessage, res: http.ServerResponse, filePath: string, size: number): void {
+    const headers: http.OutgoingHttpHeaders = {
+      'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+      'Accept-Ranges': 'bytes',
+    };
+
+    const range = parseRange(req.headers.range, size);
+    if (range === null) {
+      res.writeHead(416, { 'Content-Range': `bytes */${size}` });
+      res.end();
+      return;
+    }
+
+    if (range) {
+      res.writeHead(206, {
+        ...headers,
+        'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+        'Content-Length': range.end - range.start + 1,
+      });
+    } else {
+      res.writeHead(200, { ...headers, 'Content-Length': size });
+    }
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    // The headers are out, so a read error can only cut the response off
+    fs.createReadStream(filePath, range)
+      .on('error', (error) => {
+        this.log.warn(`Media server: cannot read ${filePath}: ${error.message}`);
+        res.destroy();
+      })
+      .pipe(res);
+  }
+}
+
+// "bytes=100-", "bytes=100-199", "bytes=-500"; undefined = whole file, null = not satisfiable
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header?.trim() || '');
+  if (!match || (!match[1] && !match[2])) {
+    // Missing, malformed or multiple ranges - send everything
+    return undefined;
+  }
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+  if (start >= size || start > end) {
+    return null;
+  }
+  return { start, end };
+}
+
+// IPv4 address of this machine in the same subnet as remoteHost (falls back to the first external one)
+export function getLocalAddress(remoteHost: string): string {
+  const candidates: Array<{ address: string; netmask: string }> = [];
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const info of addresses || []) {
+      if (info.family === 'IPv4' && !info.internal) {
+        candidates.push(info);
+      }
+    }
+  }
+
+  const toNumber = (ip: string) => ip.split('.').reduce((n, part) => (n << 8) + (parseInt(part, 10) || 0), 0) >>> 0;
+  const remote = toNumber(remoteHost);
+  const sameSubnet = candidates.find((c) => {
+    const mask = toNumber(c.netmask);
+    return ((toNumber(c.address) & mask) >>> 0) === ((remote & mask) >>> 0);
+  });
+  return sameSubnet?.address || candidates[0]?.address || '127.0.0.1';
+}
@@ -0,0 +1,145 @@
+import { Service } from 'homebridge';
+import { SoundTouchPlatform, GroupConfig } from './platform';
+import { SoundTouchAccessory } from './soundtouchAccessory';
+import { ZoneMember } from './soundtouchClient';
+import { describeError } from './soundtouchErrors';
+
+// Named multi-room groups ("Downstairs" = living room + kitchen + dining room).
+// Each group is a switch on a bridged "Multi-Room" accessory: on builds the
+// zone behind the configured master (or the first playing member), off
+// removes the members from it again. The switch follows the zone registry, so
+// it is also right after a restart or for a zone built in the SoundTouch app.
+export class MultiRoomGroupManager {
+  private readonly services: Map<GroupConfig, Service> = new Map();
+
+  constructor(private readonly platform: SoundTouchPlatform) {}
+
+  setup(): void {
+    const groups = (this.platform.config.groups || []).filter(g => g.name && g.members?.length);
+    if (groups.length === 0) {
+      return;
+    }
+
+    const accessory = this.platform.getVirtualAccessory('groups', 'Multi-Room');
+
+    // Rebuild switches from config
+    for (const service of accessory.services.filter(s => s.UUID === this.platform.Service.Switch.UUID)) {
+      accessory.removeService(service);
+    }
+
+    groups.forEach((group, index) => {
+      const service = accessory.addService(this.platform.Service.Switch, group.name, `group-${index + 1}`);
+      service
+        .setCharacteristic(this.platform.Characteristic.Name, group.name)
+        .addCharacteristic(this.platform.Characteristic.ConfiguredName)
+        .setValue(group.name);
+      this.services.set(group, service);
+
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.getMaster(group) !== undefined)
+        .onSet(async (value) => {
+          try {
+            if (value) {
+              await this.join(group);
+            } else {
+              await this.leave(group);
+            }
+          } catch (error) {
+            this.platform.log.error(`Multi-room group "${group.name}" failed: ${describeError(error)}`);
+            setTimeout(() => this.handleZoneChange(), 100);
+          }
+        });
+    });
+
+    this.platform.log.info(`Setup ${groups.length} multi-room group(s)`);
+  }
+
+  async join(group: GroupConfig): Promise<void> {
+    const members = this.resolve([...(group.master ? [group.master] : []), ...group.members]);
+    const master = (group.master ? this.resolve([group.master])[0] : undefined)
+      || members.find(m => m.isPlaying())
+      || members[0];
+    const masterInfo = master?.getDeviceInfo();
+    if (!master || !masterInfo) {
+      throw new Error('master is not reachable');
+    }
+
+    const slaves: ZoneMember[] = [];
+    for (const member of members.filter(m => m !== master)) {
+      const info = member.getDeviceInfo();
+      if (info) {
+        slaves.push({ ipaddress: member.getHost(), macaddress: info.macAddress });
+      } else {
+        this.platform.log.warn(`Multi-room group "${group.name}": ${member.getAccessoryName()} is not reachable`);
+      }
+    }
+    if (slaves.length === 0) {
+      throw new Error('no member to group with the master');
+    }
+
+    const zone = this.platform.zones.getZone(masterInfo.macAddress);
+    if (zone && zone.master === masterInfo.macAddress) {
+      const missing = slaves.filter(s => !zone.members.some(m => m.macaddress === s.macaddress));
+      if (missing.length > 0) {
+        await master.getClient().addZoneSlave(masterInfo.macAddress, missing);
+      }
+    } else {
+      await master.getClient().createZone(masterInfo.macAddress, slaves);
+    }
+    this.platform.log.info(
+      `Multi-room group "${group.name}": ${slaves.length} speaker(s) grouped with ${master.getAccessoryName()}`,
+    );
+  }
+
+  async leave(group: GroupConfig): Promise<void> {
+    const master = this.getMaster(group);
+    const masterMac = master?.getMac();
+    const zone = this.platform.zones.getZone(masterMac);
+    if (!master || !zone || zone.master !== masterMac) {
+      return;
+    }
+    // Only the members of this group; speakers added to the zone otherwise stay
+    const macs = new Set(this.resolve(group.members, false).map(m => m.getMac()));
+    const slaves = zone.members.filter(m => m.macaddress !== masterMac && macs.has(m.macaddress));
+    if (slaves.length > 0) {
+      await master.getClient().removeZoneSlave(zone.master, slaves);
+    }
+    this.platform.log.info(`Multi-room group "${group.name}" dissolved`);
+  }
+
+  // A zone was built, changed or ended (here, in the app or by the speaker buttons)
+  handleZoneChange(): void {
+    for (const [group, service] of this.services) {
+      service.updateCharacteristic(this.platform.Characteristic.On, this.getMaster(group) !== undefined);
+    }
+  }
+
+  // Master of the group's zone: a group speaker that is zone master with at least one other group speaker
+  private getMaster(group: GroupConfig): SoundTouchAccessory | undefined {
+    const speakers = this.resolve([...(group.master ? [group.master] : []), ...group.members], false);
+    const macs = new Set(speakers.map(s => s.getMac()).filter(mac => mac !== undefined));
+    return speakers.find((speaker) => {
+      const zone = this.platform.zones.getZone(speaker.getMac());
+      return zone !== undefined && zone.master === speaker.getMac()
+        && zone.members.some(m => m.macaddress !== zone.master && macs.has(m.macaddress));
+    });
+  }
+
+  // Speakers by name or IP, in config order
+  private resolve(names: string[], warn = true): SoundTouchAccessory[] {
+    const speakers: SoundTouchAccessory[] = [];
+    for (const name of names) {
+      const wanted = name.toLowerCase();
+      const speaker = this.platform.getAllAccessories().find(a => a.getAccessoryName().toLowerCase() === wanted
+        || a.getHost() === name);
+      if (!speaker) {
+        if (warn) {
+          this.platform.log.warn(`Multi-room group: no speaker named "${name}"`);
+        }
+      } else if (!speakers.includes(speaker)) {
+        speakers.push(speaker);
+      }
+    }
+    return speakers;
+  }
+}
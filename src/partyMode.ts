@@ -0,0 +1,174 @@
+import { Service } from 'homebridge';
+import { SoundTouchPlatform } from './platform';
+import { SoundTouchAccessory } from './soundtouchAccessory';
+import { GroupVolume } from './groupVolume';
+import { describeError } from './soundtouchErrors';
+
+// "Whole house": one bridged light that puts every reachable speaker in a zone
+// behind the playing (or configured) master. Its brightness is a master volume
+// that scales each speaker relative to the level it had when the party started.
+// A zone of all reachable speakers counts as party, e.g. after a restart.
+export class PartyMode {
+  private service?: Service;
+  private master?: SoundTouchAccessory;
+  private busy = false; // Starting or stopping: zone changes are our own
+  private readonly masterVolume: GroupVolume;
+
+  constructor(private readonly platform: SoundTouchPlatform) {
+    this.masterVolume = new GroupVolume(platform.log, 'Party mode');
+  }
+
+  setup(): void {
+    const config = this.platform.config.partyMode;
+    if (!config?.enabled) {
+      return;
+    }
+
+    const name = config.name || 'Ganzes Haus';
+    const accessory = this.platform.getVirtualAccessory('party', name);
+    for (const service of accessory.services.filter(s => s.UUID === this.platform.Service.Lightbulb.UUID)) {
+      accessory.removeService(service);
+    }
+
+    this.service = accessory.addService(this.platform.Service.Lightbulb, name, 'party');
+    this.service
+      .setCharacteristic(this.platform.Characteristic.Name, name)
+      .addCharacteristic(this.platform.Characteristic.ConfiguredName)
+      .setValue(name);
+
+    this.service.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.master !== undefined)
+      .onSet(async (value) => {
+        if (value === (this.master !== undefined)) {
+          return;
+        }
+        try {
+          if (value) {
+            await this.start();
+          } else {
+            await this.stop();
+          }
+        } catch (error) {
+          this.platform.log.error(`Party mode failed: ${describeError(error)}`);
+          setTimeout(() => this.updateService(), 100);
+        }
+      });
+
+    this.service.getCharacteristic(this.platform.Characteristic.Brightness)
+      .onGet(() => this.getMasterVolume())
+      .onSet(async (value) => {
+        try {
+          await this.setMasterVolume(value as number);
+        } catch (error) {
+          this.platform.log.error(`Party mode volume failed: ${describeError(error)}`);
+        }
+      });
+
+    this.platform.log.info(`Setup party mode "${name}"`);
+  }
+
+  async start(): Promise<void> {
+    this.busy = true;
+    try {
+      await this.createZone();
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  async stop(): Promise<void> {
+    const master = this.master;
+    const masterMac = master?.getMac();
+    this.master = undefined;
+    this.updateService();
+    const zone = this.platform.zones.getZone(masterMac);
+    if (!master || !zone || zone.master !== masterMac) {
+      return;
+    }
+
+    this.busy = true;
+    try {
+      const slaves = zone.members.filter(m => m.macaddress !== zone.master);
+      if (slaves.length > 0) {
+        await master.getClient().removeZoneSlave(zone.master, slaves);
+      }
+    } finally {
+      this.busy = false;
+    }
+    this.platform.log.info('Party mode ended');
+  }
+
+  // The zone registry changed: the party zone may have ended elsewhere (e.g. in the
+  // SoundTouch app), or there is a zone of all speakers this instance did not build
+  handleZoneChange(): void {
+    if (this.busy) {
+      return;
+    }
+    if (this.master) {
+      if (this.platform.zones.getRole(this.master.getMac()) !== 'master') {
+        this.master = undefined;
+        this.updateService();
+        this.platform.log.info('Party mode ended, the zone was dissolved');
+      }
+      return;
+    }
+
+    const speakers = this.platform.getAllAccessories().filter(a => a.isReachable());
+    const zone = this.platform.zones.getZone(speakers[0]?.getMac());
+    const inZone = (speaker: SoundTouchAccessory) => speaker.getMac() === zone?.master
+      || zone?.members.some(m => m.macaddress === speaker.getMac());
+    if (speakers.length < 2 || !zone || !speakers.every(inZone)) {
+      return;
+    }
+    this.master = speakers.find(s => s.getMac() === zone.master);
+    if (this.master) {
+      // Levels are taken when the volume is first moved, the speakers may not have reported theirs yet
+      this.masterVolume.reset();
+      this.updateService();
+      this.platform.log.info(`Party mode: found zone of all speakers with ${this.master.getAccessoryName()}`);
+    }
+  }
+
+  private async createZone(): Promise<void> {
+    const configured = this.platform.config.partyMode?.master;
+    const master = configured
+      ? this.platform.getAllAccessories().find(a => a.getAccessoryName().toLowerCase() === configured.toLowerCase()
+        || a.getHost() === configured)
+      : this.platform.findPlayingAccessory();
+    const masterMac = master?.getMac();
+    if (!master || !masterMac || !master.isReachable()) {
+      throw new Error(configured ? `master "${configured}" is not reachable` : 'no speaker is playing');
+    }
+
+    const members = this.platform.getAllAccessories().filter(a => a !== master && a.isReachable());
+    if (members.length === 0) {
+      throw new Error('no other speaker is reachable');
+    }
+    await master.getClient().createZone(masterMac, members.map(m => ({
+      ipaddress: m.getHost(),
+      macaddress: m.getMac()!,
+    })));
+
+    this.masterVolume.reset();
+    this.master = master;
+    this.updateService();
+    this.platform.log.info(`Party mode: ${members.length} speaker(s) grouped with ${master.getAccessoryName()}`);
+  }
+
+  async setMasterVolume(volume: number): Promise<void> {
+    if (!this.master) {
+      return;
+    }
+    await this.masterVolume.set(volume, this.platform.getZoneAccessories(this.master),
+      (speaker, target) => speaker.getClient().setVolume(target));
+  }
+
+  private getMasterVolume(): number {
+    return this.masterVolume.get(this.master ? this.platform.getZoneAccessories(this.master) : []);
+  }
+
+  private updateService(): void {
+    this.service?.updateCharacteristic(this.platform.Characteristic.On, this.master !== undefined);
+    this.service?.updateCharacteristic(this.platform.Characteristic.Brightness, this.getMasterVolume());
+  }
+}
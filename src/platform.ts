@@ -13,6 +13,15 @@ import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
 import { SoundTouchAccessory } from './soundtouchAccessory';
 import { SoundTouchDiscovery, DiscoveredDevice } from './discovery';
 import { SoundTouchClient } from './soundtouchClient';
+import { AlarmScheduler } from './alarmScheduler';
+import { MediaServer } from './mediaServer';
+import { AnnouncementManager } from './announcements';
+import { MultiRoomGroupManager } from './multiRoomGroups';
+import { PartyMode } from './partyMode';
+import { ZoneRegistry } from './zoneRegistry';
+import { StereoPairManager } from './stereoPairs';
+import { ZoneUpdate } from './soundtouchWebSocket';
+import { TrackOrder } from './playQueue';
 
 // Preset configuration for a single slot
 export interface PresetConfig {
@@ -20,11 +29,57 @@ export interface PresetConfig {
   name: string;
   type: 'radio' | 'spotify' | 'amazon' | 'deezer' | 'tunein' | 'nas';
   url?: string;              // For radio streams (http URLs)
+  relay?: boolean;           // For radio: always play HTTPS streams through the built-in relay
   spotifyUri?: string;       // For Spotify (spotify:playlist:xxx, spotify:album:xxx)
   contentId?: string;        // For TuneIn, Amazon, Deezer
   sourceAccount?: string;    // Account identifier for streaming services
-  nasLocation?: string;      // For NAS/DLNA: DLNA Object-ID
-  nasServer?: string;        // For NAS/DLNA: Server-ID + "/0"
+  nasLocation?: string;      // For NAS/DLNA: DLNA Object-ID, or path in the music directory
+  nasServer?: string;        // For NAS/DLNA: Server-ID + "/0", or "local" for the music directory
+  nasOrder?: TrackOrder;     // For NAS/DLNA: track (album order, default), title or random
+  nasLimit?: number;         // For NAS/DLNA: maximum number of tracks (default: 1000)
+}
+
+// Alarm clock entry of a device
+export interface AlarmConfig {
+  name?: string;
+  time: string;              // HH:MM
+  days?: number[];           // 0 = Sunday ... 6 = Saturday, empty = every day
+  preset?: number;           // Preset slot 1-6 to play
+  url?: string;              // Stream URL to play if no preset is set
+  startVolume?: number;      // Volume when the alarm starts (default: 10)
+  targetVolume?: number;     // Volume at the end of the ramp (default: 30)
+  rampDuration?: number;     // Minutes from start to target volume (default: 10)
+  enabled?: boolean;         // Initial state of the HomeKit switch (default: true)
+}
+
+// Named multi-room group, a switch on the bridged "Multi-Room" accessory
+export interface GroupConfig {
+  name: string;
+  master?: string;           // Device name or IP of the master (default: first playing member, else the first one)
+  members: string[];         // Device names or IPs
+}
+
+// "Whole house" party mode, a bridged light: on = all speakers in one zone, brightness = master volume
+export interface PartyModeConfig {
+  enabled?: boolean;
+  name?: string;             // Default: Ganzes Haus
+  master?: string;           // Device name or IP of the master (default: the speaker that is playing)
+}
+
+// Two SoundTouch 10 bonded as a stereo pair, one HomeKit accessory for both
+export interface StereoPairConfig {
+  name: string;
+  left: string;              // Device name or IP of the left speaker, which controls the pair
+  right: string;             // Device name or IP of the right speaker (not shown in HomeKit)
+}
+
+// Clip played on one or more speakers via a HomeKit switch
+export interface AnnouncementConfig {
+  name: string;
+  file: string;              // Local audio file or http URL
+  devices?: string[];        // Device names or IPs, empty = all
+  volume?: number;           // Volume for the clip (default: current volume)
+  maxDuration?: number;      // Seconds until the previous state is restored at the latest (default: 60)
 }
 
 // Device configuration with individual presets and icon
@@ -35,19 +90,46 @@ export interface DeviceConfig {
   room?: string;
   deviceIcon?: number;       // Device-specific icon (HomeKit category)
   presets?: PresetConfig[];  // Device-specific preset configuration
+  alarms?: AlarmConfig[];    // Alarm clock, one HomeKit switch per alarm
   autoResume?: boolean;      // Resume last preset on power on
   presetDisplay?: 'menu' | 'buttons'; // How presets are shown in HomeKit
+  buttonEvents?: boolean;    // Expose hardware button presses as programmable switches
+  playingSensor?: boolean;   // Occupancy sensor: detected while playing
+  powerSensor?: boolean;     // Contact sensor: open while powered on
+  sourceSensors?: string[];  // Occupancy sensor per source while active (e.g. PRODUCT, AUX, BLUETOOTH)
+  sleepTimer?: boolean;      // Sleep timer as HomeKit Valve
+  sleepTimerFade?: number;   // Fade out over the last minutes of the sleep timer (default: 5, 0 = off)
+  streamTitleOnDisplay?: boolean; // Show the song of radio streams on the speaker display (restarts the stream briefly)
+  queueSwitches?: boolean;   // Shuffle and repeat switches for NAS albums and playlists
   volumeName?: string;       // Custom name for volume slider (default: Lautstärke)
   bassName?: string;         // Custom name for bass slider (default: Bass)
   auxName?: string;          // Custom name for AUX input (default: AUX Eingang)
   bluetoothName?: string;    // Custom name for Bluetooth input (default: Bluetooth)
   multiRoomName?: string;    // Custom name for Multi-Room switch (default: Multi-Room)
+  groupVolume?: boolean;     // Extra slider for the whole zone while this speaker is master
+  groupVolumeName?: string;  // Custom name for the group volume slider (default: Gruppenlautstärke)
+  playingSensorName?: string; // Custom name for the playing sensor (default: <name> spielt)
+  powerSensorName?: string;  // Custom name for the power sensor (default: <name> an)
+  shuffleName?: string;      // Custom name for the shuffle switch (default: Zufallswiedergabe)
+  repeatName?: string;       // Custom name for the repeat switch (default: Wiederholen)
+  repeatOneName?: string;    // Custom name for the repeat track switch (default: Titel wiederholen)
 }
 
 export interface SoundTouchPlatformConfig extends PlatformConfig {
   devices?: DeviceConfig[];
   autoDiscover?: boolean;
   discoveryTimeout?: number;
+  requestTimeout?: number;   // HTTP timeout per device request in ms (default: 5000)
+  requestRetries?: number;   // Retries for failed status requests (default: 2)
+  pollingInterval?: number;  // HTTP polling interval in ms while the WebSocket is down (default: 10000, 0 = off)
+  logRawUpdates?: boolean;   // Debug-log WebSocket messages the plugin does not handle
+  announcements?: AnnouncementConfig[];
+  groups?: GroupConfig[];    // Named multi-room groups
+  partyMode?: PartyModeConfig;
+  stereoPairs?: StereoPairConfig[];
+  mediaServerPort?: number;  // Port of the built-in file server (default: 8095)
+  mediaServerAddress?: string; // IP address the speakers use to reach Homebridge (default: auto)
+  musicDirectory?: string;   // Local folder served to the speakers for "nas" presets with nasServer "local"
 }
 
 export class SoundTouchPlatform implements DynamicPlatformPlugin {
@@ -55,8 +137,18 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
   public readonly Characteristic: typeof Characteristic;
 
   public readonly accessories: PlatformAccessory[] = [];
+  public readonly alarmScheduler: AlarmScheduler;
+  public readonly mediaServer: MediaServer;
+  public readonly zones = new ZoneRegistry();
+  public readonly stereoPairs: StereoPairManager;
+  private readonly announcements: AnnouncementManager;
+  private readonly groups: MultiRoomGroupManager;
+  private readonly partyMode: PartyMode;
   private readonly soundTouchAccessories: Map<string, SoundTouchAccessory> = new Map();
   private readonly externalAccessories: Map<string, PlatformAccessory> = new Map();
+  // Bridged accessories that do not belong to one speaker (e.g. announcements)
+  private readonly virtualAccessories: Map<string, PlatformAccessory> = new Map();
+  private readonly cachedVirtualAccessories: Map<string, PlatformAccessory> = new Map();
   private discovery?: SoundTouchDiscovery;
   private rescanInterval?: ReturnType<typeof setInterval>;
   private static readonly RESCAN_INTERVAL = 5 * 60 * 1000; // 5 minutes
@@ -68,6 +160,14 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
   ) {
     this.Service = api.hap.Service;
     this.Characteristic = api.hap.Characteristic;
+    this.alarmScheduler = new AlarmScheduler(log, api.user.storagePath());
+    this.mediaServer = new MediaServer(
+      log, config.mediaServerPort || 8095, config.mediaServerAddress, config.musicDirectory,
+    );
+    this.announcements = new AnnouncementManager(this, this.mediaServer);
+    this.groups = new MultiRoomGroupManager(this);
+    this.partyMode = new PartyMode(this);
+    this.stereoPairs = new StereoPairManager(this);
     this.log.debug('Finished initializing platform:', this.config.name);
 
     this.api.on('didFinishLaunching', () => {
@@ -82,6 +182,12 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
   }
 
   configureAccessory(accessory: PlatformAccessory): void {
+    // Bridged accessories of the platform itself are kept
+    if (accessory.context.virtual) {
+      this.cachedVirtualAccessories.set(accessory.UUID, accessory);
+      return;
+    }
+
     // This is called for cached platform accessories
     // We'll unregister these old-style accessories and use external accessories instead
     this.log.info('Found cached accessory (will migrate to external):', accessory.displayName);
@@ -212,6 +318,9 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
     // Start continuous mDNS listener for runtime IP changes (always by MAC)
     this.discovery.start(
       (device: DiscoveredDevice) => {
+        if (device.mac && this.stereoPairs.updateRightSpeakerHost(device.mac, device.host)) {
+          return;
+        }
         const existing = device.mac ? this.findAccessoryByMac(device.mac) : undefined;
         if (existing && existing.getHost() !== device.host) {
           const oldHost = existing.getHost();
@@ -251,6 +360,25 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
 
     // Periodic re-scan to catch devices that come online later with new IPs
     this.rescanInterval = setInterval(() => this.rescanDevices(), SoundTouchPlatform.RESCAN_INTERVAL);
+
+    this.alarmScheduler.start();
+
+    this.announcements.setup();
+    this.groups.setup();
+    this.partyMode.setup();
+
+    // Local music presets need the server right away, announcements start it on demand
+    if (this.mediaServer.hasMusicDirectory) {
+      this.mediaServer.start().catch((error) => {
+        this.log.error('Media server could not start:', error);
+      });
+    }
+
+    // Bridged accessories that are no longer configured
+    if (this.cachedVirtualAccessories.size > 0) {
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, Array.from(this.cachedVirtualAccessories.values()));
+      this.cachedVirtualAccessories.clear();
+    }
   }
 
   private async rescanDevices(): Promise<void> {
@@ -275,6 +403,9 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
           // Use mDNS MAC
         }
 
+        if (this.stereoPairs.updateRightSpeakerHost(mac, device.host)) {
+          continue;
+        }
         const existing = this.findAccessoryByMac(mac);
         if (existing && existing.getHost() !== device.host) {
           const oldHost = existing.getHost();
@@ -339,7 +470,19 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
 
   private registerDevice(device: DeviceConfig, mac?: string): void {
     const uuid = this.api.hap.uuid.generate(device.deviceID || device.host);
-    const displayName = device.name || `SoundTouch ${device.host}`;
+    let displayName = device.name || `SoundTouch ${device.host}`;
+
+    // Stereo pair: the left speaker stands for both, the right one is not published
+    const stereo = this.stereoPairs.findPair(device);
+    if (stereo?.role === 'right') {
+      if (this.stereoPairs.addRightSpeaker(stereo.pair, device)) {
+        this.log.info(`${displayName} is the right speaker of stereo pair "${stereo.pair.name}", controlled via ${stereo.pair.left}`);
+      }
+      return;
+    }
+    if (stereo) {
+      displayName = stereo.pair.name;
+    }
 
     // Map deviceIcon to HomeKit category (like LG WebOS plugin)
     // 0=OTHER, 26=SPEAKER, 34=AUDIO_RECEIVER, 31=TELEVISION, 35=TV_SET_TOP_BOX,
@@ -379,6 +522,8 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
     if (this.discovery) {
       this.discovery.stop();
     }
+    this.alarmScheduler.stop();
+    this.mediaServer.stop();
 
     for (const accessory of this.soundTouchAccessories.values()) {
       accessory.destroy();
@@ -387,6 +532,20 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
     this.externalAccessories.clear();
   }
 
+  // Bridged accessory for platform features, restored from cache or newly registered
+  getVirtualAccessory(id: string, name: string): PlatformAccessory {
+    const uuid = this.api.hap.uuid.generate(`${PLATFORM_NAME}-${id}`);
+    let accessory = this.virtualAccessories.get(uuid) || this.cachedVirtualAccessories.get(uuid);
+    if (!accessory) {
+      accessory = new this.api.platformAccessory(name, uuid, Categories.SWITCH);
+      accessory.context.virtual = id;
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+    this.cachedVirtualAccessories.delete(uuid);
+    this.virtualAccessories.set(uuid, accessory);
+    return accessory;
+  }
+
   // Public methods for multi-room control
 
   getAllAccessories(): SoundTouchAccessory[] {
@@ -422,12 +581,13 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
     return this.config.devices?.find(d => d.host === host);
   }
 
-  // Multi-room: find a box that is currently playing (to be the master)
+  // Multi-room: find a box that is currently playing (to be the master). Slaves
+  // play what their master plays, so they are skipped.
   findPlayingAccessory(
     exclude?: SoundTouchAccessory,
   ): SoundTouchAccessory | undefined {
     for (const accessory of this.soundTouchAccessories.values()) {
-      if (accessory !== exclude && accessory.isPlaying()) {
+      if (accessory !== exclude && accessory.isPlaying() && this.zones.getRole(accessory.getMac()) !== 'slave') {
         return accessory;
       }
     }
@@ -435,28 +595,41 @@ export class SoundTouchPlatform implements DynamicPlatformPlugin {
   }
 
   // Multi-room: find the master for a slave box
-  async findMasterForSlave(
-    slave: SoundTouchAccessory,
-  ): Promise<SoundTouchAccessory | undefined> {
-    const slaveInfo = slave.getDeviceInfo();
-    if (!slaveInfo) {
+  findMasterForSlave(slave: SoundTouchAccessory): SoundTouchAccessory | undefined {
+    const zone = this.zones.getZone(slave.getMac());
+    if (!zone || zone.master === slave.getMac()) {
       return undefined;
     }
+    return this.findAccessoryByMac(zone.master);
+  }
+
+  // Multi-room: zone members known to the platform, the master first
+  getZoneAccessories(master: SoundTouchAccessory): SoundTouchAccessory[] {
+    const zone = this.zones.getZone(master.getMac());
+    if (!zone || zone.master !== master.getMac()) {
+      return [master];
+    }
+    const slaves = zone.members
+      .filter(m => m.macaddress !== zone.master)
+      .map(m => this.findAccessoryByMac(m.macaddress))
+      .filter((a): a is SoundTouchAccessory => a !== undefined);
+    return [master, ...slaves];
+  }
+
+  // Multi-room: a speaker reported its zone (WebSocket, polling or on connect)
+  updateZone(reporter: SoundTouchAccessory, update: ZoneUpdate): void {
+    const mac = reporter.getMac();
+    if (!mac) {
+      return;
+    }
+    const { changed } = this.zones.update(mac, update);
+    if (!changed) {
+      return;
+    }
     for (const accessory of this.soundTouchAccessories.values()) {
-      if (accessory === slave) {
-        continue;
-      }
-      try {
-        const zone = await accessory.getClient().getZone();
-        if (zone && zone.members.some(
-          m => m.macaddress === slaveInfo.macAddress,
-        )) {
-          return accessory;
-        }
-      } catch {
-        // Ignore errors
-      }
+      accessory.handleZoneChange();
     }
-    return undefined;
+    this.groups.handleZoneChange();
+    this.partyMode.handleZoneChange();
   }
 }
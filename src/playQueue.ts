@@ -0,0 +1,228 @@
+import { Logger } from 'homebridge';
+import * as fs from 'fs';
+
+export interface QueueTrack {
+  url: string;
+  title: string;
+}
+
+export type RepeatMode = 'off' | 'one' | 'all';
+
+// Order of the tracks of a folder: as found (track number within each album), by title, or random
+export type TrackOrder = 'track' | 'title' | 'random';
+
+interface QueueState {
+  tracks: QueueTrack[];
+  order: number[];
+  position: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+// Tracks played one after another via DLNA (NAS album, music folder, playlist
+// file) with shuffle and repeat. With a state file, the queue and the position
+// in it survive a Homebridge restart.
+export class PlayQueue {
+  private tracks: QueueTrack[] = [];
+  private order: number[] = []; // Play order as indices into tracks
+  private position = 0;         // Current entry of order
+  private shuffleEnabled = false;
+  private repeatMode: RepeatMode = 'off';
+
+  constructor(
+    private readonly log?: Logger,
+    private readonly statePath?: string,
+  ) {
+    this.loadState();
+  }
+
+  get length(): number {
+    return this.tracks.length;
+  }
+
+  // Position in play order (0-based)
+  get index(): number {
+    return this.position;
+  }
+
+  get shuffle(): boolean {
+    return this.shuffleEnabled;
+  }
+
+  get repeat(): RepeatMode {
+    return this.repeatMode;
+  }
+
+  current(): QueueTrack | undefined {
+    return this.tracks[this.order[this.position]];
+  }
+
+  getTracks(): readonly QueueTrack[] {
+    return this.tracks;
+  }
+
+  set(tracks: QueueTrack[], startIndex = 0): void {
+    this.tracks = tracks;
+    this.order = tracks.map((_, i) => i);
+    this.position = Math.min(Math.max(0, startIndex), Math.max(0, tracks.length - 1));
+    if (this.shuffleEnabled) {
+      this.shuffleOrder(this.position);
+    }
+    this.saveState();
+  }
+
+  // Empties the queue, shuffle and repeat stay as they are
+  clear(): void {
+    if (this.tracks.length === 0) {
+      return;
+    }
+    this.tracks = [];
+    this.order = [];
+    this.position = 0;
+    this.saveState();
+  }
+
+  // Track the renderer should play when the current one ends
+  peekNext(): QueueTrack | undefined {
+    if (this.tracks.length === 0) {
+      return undefined;
+    }
+    if (this.repeatMode === 'one') {
+      return this.current();
+    }
+    if (this.position + 1 < this.order.length) {
+      return this.tracks[this.order[this.position + 1]];
+    }
+    return this.repeatMode === 'all' ? this.tracks[this.order[0]] : undefined;
+  }
+
+  // auto: the current track ended (repeat one plays it again). Undefined at the end of the queue.
+  next(auto = false): QueueTrack | undefined {
+    if (this.tracks.length === 0) {
+      return undefined;
+    }
+    if (auto && this.repeatMode === 'one') {
+      return this.current();
+    }
+    if (this.position + 1 < this.order.length) {
+      this.position++;
+    } else if (this.repeatMode === 'all') {
+      this.position = 0;
+    } else {
+      return undefined;
+    }
+    this.saveState();
+    return this.current();
+  }
+
+  // At the start of the queue the first track is played again (or the last one with repeat all)
+  previous(): QueueTrack | undefined {
+    if (this.tracks.length === 0) {
+      return undefined;
+    }
+    if (this.position > 0) {
+      this.position--;
+    } else if (this.repeatMode === 'all') {
+      this.position = this.order.length - 1;
+    }
+    this.saveState();
+    return this.current();
+  }
+
+  // trackIndex: position in the original (unshuffled) track list
+  jumpTo(trackIndex: number): QueueTrack | undefined {
+    const position = this.order.indexOf(trackIndex);
+    if (position < 0) {
+      return undefined;
+    }
+    this.position = position;
+    this.saveState();
+    return this.current();
+  }
+
+  setShuffle(enabled: boolean): void {
+    if (enabled === this.shuffleEnabled) {
+      return;
+    }
+    this.shuffleEnabled = enabled;
+    const currentTrack = this.order[this.position] ?? 0;
+    if (enabled) {
+      this.shuffleOrder(currentTrack);
+    } else {
+      this.order = this.tracks.map((_, i) => i);
+      this.position = this.tracks.length > 0 ? currentTrack : 0;
+    }
+    this.saveState();
+  }
+
+  setRepeat(mode: RepeatMode): void {
+    if (mode !== this.repeatMode) {
+      this.repeatMode = mode;
+      this.saveState();
+    }
+  }
+
+  // The current track stays first, the others follow in random order
+  private shuffleOrder(first: number): void {
+    if (this.tracks.length === 0) {
+      return;
+    }
+    const rest = this.tracks.map((_, i) => i).filter(i => i !== first);
+    this.order = [first, ...shuffled(rest)];
+    this.position = 0;
+  }
+
+  private loadState(): void {
+    if (!this.statePath) {
+      return;
+    }
+    try {
+      if (fs.existsSync(this.statePath)) {
+        const state = JSON.parse(fs.readFileSync(this.statePath, 'utf-8')) as QueueState;
+        this.tracks = state.tracks || [];
+        this.order = state.order?.length === this.tracks.length ? state.order : this.tracks.map((_, i) => i);
+        this.position = Math.min(state.position || 0, Math.max(0, this.tracks.length - 1));
+        this.shuffleEnabled = !!state.shuffle;
+        this.repeatMode = state.repeat || 'off';
+      }
+    } catch (error) {
+      this.log?.warn('Failed to read play queue:', error);
+    }
+  }
+
+  private saveState(): void {
+    if (!this.statePath) {
+      return;
+    }
+    const state: QueueState = {
+      tracks: this.tracks,
+      order: this.order,
+      position: this.position,
+      shuffle: this.shuffleEnabled,
+      repeat: this.repeatMode,
+    };
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify(state, null, 2));
+    } catch (error) {
+      this.log?.error('Failed to save play queue:', error);
+    }
+  }
+}
+
+// Tracks in the given order, at most limit of them
+export function orderTracks<T extends { title: string }>(tracks: T[], order: TrackOrder = 'track', limit?: number): T[] {
+  const ordered = order === 'random' ? shuffled(tracks)
+    : order === 'title' ? [...tracks].sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true, sensitivity: 'base' }))
+      : tracks;
+  return limit && limit > 0 ? ordered.slice(0, limit) : ordered;
+}
+
+// Fisher-Yates shuffle into a new array
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
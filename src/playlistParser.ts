@@ -0,0 +1,269 @@
+import * as http from 'http';
+import * as https from 'https';
+import { openStream } from './streamRelay';
+
+export interface PlaylistEntry {
+  url: string;
+  title: string;
+  duration?: number; // Seconds, undefined for live streams
+}
+
+type PlaylistFormat = 'm3u' | 'pls' | 'xspf' | 'asx';
+
+const EXTENSIONS: Record<string, PlaylistFormat> = {
+  '.m3u': 'm3u',
+  '.m3u8': 'm3u',
+  '.pls': 'pls',
+  '.xspf': 'xspf',
+  '.asx': 'asx',
+  '.wax': 'asx',
+  '.wvx': 'asx',
+};
+
+const CONTENT_TYPES: Record<string, PlaylistFormat> = {
+  'audio/x-mpegurl': 'm3u',
+  'audio/mpegurl': 'm3u',
+  'application/x-mpegurl': 'm3u',
+  'application/vnd.apple.mpegurl': 'm3u',
+  'audio/x-scpls': 'pls',
+  'audio/scpls': 'pls',
+  'application/pls+xml': 'pls',
+  'application/xspf+xml': 'xspf',
+  'video/x-ms-asf': 'asx',
+  'video/x-ms-asx': 'asx',
+  'audio/x-ms-asx': 'asx',
+  'audio/x-ms-wax': 'asx',
+};
+
+const MAX_SIZE = 256 * 1024;
+const MAX_DEPTH = 3; // Playlists pointing to playlists
+const MAX_REDIRECTS = 5;
+const PROBE_TIMEOUT = 3000;
+
+// Worth reading as a playlist: a playlist extension, else a playlist or text content type on HEAD.
+// Streams and servers that do not answer HEAD in time are played directly.
+export async function isPlaylistUrl(url: string): Promise<boolean> {
+  if (formatFromExtension(url)) {
+    return true;
+  }
+  const contentType = await probeContentType(url).catch(() => '');
+  return !!CONTENT_TYPES[contentType] || contentType.startsWith('text/') || contentType.endsWith('/xml');
+}
+
+// Entries of the playlist behind url, undefined if url is a stream (or anything else) and not a playlist
+export async function resolvePlaylist(url: string, depth = 0): Promise<PlaylistEntry[] | undefined> {
+  const controller = new AbortController();
+  let content: string;
+  let format: PlaylistFormat | undefined;
+  try {
+    const response = await openStream(url, controller.signal);
+    const contentType = mediaType(response);
+    format = CONTENT_TYPES[contentType] || formatFromExtension(url);
+
+    // Do not start downloading audio just to find out it is no playlist
+    const isText = contentType.startsWith('text/') || contentType.endsWith('/xml');
+    if (!format && !isText) {
+      return undefined;
+    }
+
+    content = '';
+    for await (const chunk of response) {
+      content += chunk.toString('utf-8');
+      if (content.length > MAX_SIZE) {
+        throw new Error('Playlist too large');
+      }
+    }
+  } finally {
+    controller.abort();
+  }
+
+  format = detectFormat(content) || format;
+  if (!format) {
+    return undefined;
+  }
+
+  const entries = parsePlaylist(content, format, url);
+  if (depth >= MAX_DEPTH) {
+    return entries;
+  }
+
+  // Entries can be playlists again (e.g. an M3U listing a PLS)
+  const resolved: PlaylistEntry[] = [];
+  for (const entry of entries) {
+    const nested = formatFromExtension(entry.url)
+      ? await resolvePlaylist(entry.url, depth + 1).catch(() => undefined)
+      : undefined;
+    resolved.push(...(nested || [entry]));
+  }
+  return resolved;
+}
+
+function parsePlaylist(content: string, format: PlaylistFormat, baseUrl: string): PlaylistEntry[] {
+  const entries = format === 'pls' ? parsePls(content, baseUrl)
+    : format === 'xspf' ? parseXspf(content, baseUrl)
+      : format === 'asx' ? parseAsx(content, baseUrl)
+        : parseM3u(content, baseUrl);
+  return entries.filter(entry => /^https?:\/\//i.test(entry.url));
+}
+
+// Playlists found in the wild often have the wrong content type - look at the content first
+function detectFormat(content: string): PlaylistFormat | undefined {
+  const start = content.trimStart().slice(0, 512).toLowerCase();
+  if (start.startsWith('[playlist]')) {
+    return 'pls';
+  }
+  if (start.startsWith('#extm3u')) {
+    return 'm3u';
+  }
+  if (/<playlist[\s>]/.test(start) && start.includes('xspf')) {
+    return 'xspf';
+  }
+  if (/<asx[\s>]/.test(start)) {
+    return 'asx';
+  }
+  return undefined;
+}
+
+// #EXTM3U / #EXTINF:<seconds>,<title> / <url>
+function parseM3u(content: string, baseUrl: string): PlaylistEntry[] {
+  if (content.includes('#EXT-X-')) {
+    throw new Error('HLS playlists are not supported by the speaker');
+  }
+
+  const entries: PlaylistEntry[] = [];
+  let info: { title: string; duration?: number } | undefined;
+  for (const line of content.split(/\r?\n/).map(l => l.trim())) {
+    const extinf = /^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/i.exec(line);
+    if (extinf) {
+      info = { title: extinf[2].trim(), duration: toDuration(parseFloat(extinf[1])) };
+    } else if (line && !line.startsWith('#')) {
+      entries.push({ url: resolveUrl(line, baseUrl), title: info?.title || '', duration: info?.duration });
+      info = undefined;
+    }
+  }
+  return entries;
+}
+
+// [playlist] / File1=<url> / Title1=<title> / Length1=<seconds>
+function parsePls(content: string, baseUrl: string): PlaylistEntry[] {
+  const byIndex: Map<number, { file?: string; title?: string; length?: number }> = new Map();
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^\s*(File|Title|Length)(\d+)\s*=\s*(.*?)\s*$/i.exec(line);
+    if (!match) {
+      continue;
+    }
+    const index = parseInt(match[2], 10);
+    const entry = byIndex.get(index) || {};
+    const key = match[1].toLowerCase();
+    if (key === 'file') {
+      entry.file = match[3];
+    } else if (key === 'title') {
+      entry.title = match[3];
+    } else {
+      entry.length = parseFloat(match[3]);
+    }
+    byIndex.set(index, entry);
+  }
+
+  return Array.from(byIndex.entries())
+    .sort(([a], [b]) => a - b)
+    .filter(([, entry]) => entry.file)
+    .map(([, entry]) => ({
+      url: resolveUrl(entry.file!, baseUrl),
+      title: entry.title || '',
+      duration: toDuration(entry.length),
+    }));
+}
+
+// <track><location/><title/><duration>milliseconds</duration></track>
+function parseXspf(content: string, baseUrl: string): PlaylistEntry[] {
+  const entries: PlaylistEntry[] = [];
+  for (const track of content.match(/<track[\s>][\s\S]*?<\/track>/gi) || []) {
+    const location = xmlText(track, 'location');
+    if (location) {
+      const duration = parseFloat(xmlText(track, 'duration'));
+      entries.push({ url: resolveUrl(location, baseUrl), title: xmlText(track, 'title'), duration: toDuration(duration / 1000) });
+    }
+  }
+  return entries;
+}
+
+// <entry><title/><ref href=""/><duration value="hh:mm:ss"/></entry> - tags in any case
+function parseAsx(content: string, baseUrl: string): PlaylistEntry[] {
+  const entries: PlaylistEntry[] = [];
+  for (const entry of content.match(/<entry[\s>][\s\S]*?<\/entry>/gi) || []) {
+    const title = xmlText(entry, 'title');
+    const durationValue = /<duration\s+value\s*=\s*"([^"]*)"/i.exec(entry)?.[1];
+    const duration = durationValue
+      ? durationValue.split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0)
+      : undefined;
+    // Several refs in one entry are alternative addresses of the same content
+    for (const ref of entry.matchAll(/<ref\s+href\s*=\s*"([^"]*)"/gi)) {
+      entries.push({ url: resolveUrl(decodeXml(ref[1]), baseUrl), title, duration: toDuration(duration) });
+    }
+  }
+  return entries;
+}
+
+// HEAD with redirects
+function probeContentType(url: string, redirects = 0): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const request = (/^https:/i.test(url) ? https : http).request(url, {
+      method: 'HEAD',
+      headers: { 'User-Agent': 'homebridge-bose-soundtouch' },
+      timeout: PROBE_TIMEOUT,
+    }, (response) => {
+      response.resume();
+      const status = response.statusCode || 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location && redirects < MAX_REDIRECTS) {
+        resolve(probeContentType(new URL(location, url).toString(), redirects + 1));
+      } else if (status === 200) {
+        resolve(mediaType(response));
+      } else {
+        reject(new Error(`HTTP ${status}`));
+      }
+    });
+    request.on('timeout', () => request.destroy(new Error('Timeout')));
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+// "audio/x-scpls; charset=utf-8" -> "audio/x-scpls"
+function mediaType(response: http.IncomingMessage): string {
+  return String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+}
+
+function formatFromExtension(url: string): PlaylistFormat | undefined {
+  try {
+    return EXTENSIONS[new URL(url).pathname.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] || ''];
+  } catch {
+    return undefined;
+  }
+}
+
+function xmlText(xml: string, tag: string): string {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i').exec(xml);
+  return match ? decodeXml(match[1].replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1').trim()) : '';
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"').replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+function resolveUrl(url: string, baseUrl: string): string {
+  try {
+    return new URL(url.trim(), baseUrl).toString();
+  } catch {
+    return url.trim();
+  }
+}
+
+// -1, 0 and garbage mean "endless stream"
+function toDuration(seconds: number | undefined): number | undefined {
+  return seconds !== undefined && Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+}
@@ -2,17 +2,49 @@ import {
   Service,
   PlatformAccessory,
   CharacteristicValue,
+  HAPStatus,
 } from 'homebridge';
-import { SoundTouchPlatform, DeviceConfig, PresetConfig } from './platform';
-import { SoundTouchClient, DeviceInfo } from './soundtouchClient';
+import * as path from 'path';
+import { SoundTouchPlatform, DeviceConfig, PresetConfig, AlarmConfig } from './platform';
+import { AlarmTarget, normalizeTime } from './alarmScheduler';
+import { SoundTouchClient, DeviceInfo, Source, NowPlaying, Zone } from './soundtouchClient';
 import {
-  SoundTouchWebSocket, VolumeUpdate, NowPlayingUpdate, PresetSelectionUpdate,
+  SoundTouchError, SoundTouchDeviceError, SoundTouchTimeoutError, SoundTouchNetworkError, DlnaSoapError, describeError,
+} from './soundtouchErrors';
+import { StatePoller } from './statePoller';
+import { PlaylistEntry, isPlaylistUrl, resolvePlaylist } from './playlistParser';
+import { isStreamReachable } from './streamRelay';
+import { IcyMetadataMonitor, StreamTitle } from './icyMetadata';
+import { GroupVolume } from './groupVolume';
+import { PlayQueue, RepeatMode, TrackOrder, orderTracks } from './playQueue';
+import {
+  SoundTouchWebSocket, VolumeUpdate, NowPlayingUpdate, PresetSelectionUpdate, BassUpdate, NameUpdate,
 } from './soundtouchWebSocket';
 
-export class SoundTouchAccessory {
+// State saved before an announcement and restored afterwards
+interface PlaybackSnapshot {
+  nowPlaying: NowPlaying;
+  volume: number;
+  muted: boolean;
+  zone: Zone | null;
+  presetSlot: number;
+}
+
+type InputMapping =
+  | { type: 'preset'; slot: number }
+  | { type: 'source'; source: string; sourceAccount?: string };
+
+// Sources the device lists but that cannot be selected as an input
+const HIDDEN_SOURCES = new Set([
+  'UPNP', 'STORED_MUSIC', 'STORED_MUSIC_MEDIA_RENDERER', 'NOTIFICATION', 'INVALID_SOURCE', 'STANDBY',
+  'LOCAL_INTERNET_RADIO', 'INTERNET_RADIO', 'TUNEIN', 'AIRPLAY', 'ALEXA', 'UPDATE',
+]);
+
+export class SoundTouchAccessory implements AlarmTarget {
   private readonly client: SoundTouchClient;
   private readonly webSocket: SoundTouchWebSocket;
   private readonly deviceConfig: DeviceConfig;
+  private readonly streamMonitor: IcyMetadataMonitor;
 
   // Services
   private televisionService!: Service;
@@ -21,6 +53,14 @@ export class SoundTouchAccessory {
   private bassLightbulbService?: Service;
   private groupSwitchService!: Service;
   private inputServices: Service[] = [];
+  private buttonServices: Map<string, Service> = new Map();
+  private playingSensorService?: Service;
+  private powerSensorService?: Service;
+  private sourceSensorServices: Map<string, Service> = new Map();
+  private sleepTimerService?: Service;
+  private groupVolumeService?: Service;
+  private readonly groupVolume: GroupVolume; // Scales the zone while this speaker is master
+  private alarmIds: string[] = [];
 
   // State
   private deviceInfo?: DeviceInfo;
@@ -32,14 +72,41 @@ export class SoundTouchAccessory {
   private bassAvailable = false;
   private currentMute = false;
   private isPoweredOn = false;
-  private isGrouped = false;
+  private isGrouped = false; // Slave in the zone of another speaker
   private currentInputIndex = 0;
   private currentPlayStatus = '';
+  private currentSource = '';
   private lastActivePresetSlot = 0;
-  // Maps sequential HomeKit Identifier → internal action type + slot
-  private inputMap: Array<{ type: 'preset' | 'aux' | 'bluetooth'; slot: number }> = [];
+  private sources: Source[] = [];
+  // Maps sequential HomeKit Identifier → internal action (preset slot or device source)
+  private inputMap: InputMapping[] = [];
+  private lastUserActivity = 0;
+  private sleepDuration = 30 * 60; // Seconds
+  private sleepEndsAt = 0;
+  private sleepTimer?: ReturnType<typeof setTimeout>;
+  private sleepFadeVolume?: number; // Volume before the fade started, restored afterwards
+  private pendingFadeVolume?: number; // Fade volume that could not be restored, set at the next power-on
+  private alarmRampTimer?: ReturnType<typeof setTimeout>;
+  private alarmRampVolume = 0; // Last volume set by the wake-up ramp
+  private announcing = false;
+  private announcementListener?: (data: NowPlayingUpdate) => void;
   private presetSwitchServices: Service[] = [];
   private presetSwitchSlots: number[] = [];
+  private playlistTimer?: ReturnType<typeof setInterval>;
+  private checkingPlaylist = false;
+  private playlistRecheck = false;
+  private streamUrl?: string; // Radio stream sent to the speaker while its metadata is followed
+  private streamTitle?: StreamTitle;
+  private initRetryTimer?: ReturnType<typeof setTimeout>;
+  private poller?: StatePoller;
+  private pollingFallbackTimer?: ReturnType<typeof setTimeout>;
+
+  private static readonly INIT_RETRY_INTERVAL = 30_000; // 30 seconds
+  private static readonly POLLING_FALLBACK_DELAY = 60_000; // WebSocket down for 1 minute
+  private static readonly USER_ACTIVITY_WINDOW = 2_000; // State change following a key press
+  private static readonly SLEEP_TIMER_MAX = 4 * 60 * 60; // Seconds
+  private static readonly SLEEP_FADE_STEP = 10_000; // Volume step interval while fading out
+  private static readonly PLAYLIST_POLL_INTERVAL = 5_000;
 
   constructor(
     private readonly platform: SoundTouchPlatform,
@@ -47,8 +114,16 @@ export class SoundTouchAccessory {
     deviceConfig: DeviceConfig,
   ) {
     this.deviceConfig = deviceConfig;
-    this.client = new SoundTouchClient(deviceConfig.host);
-    this.webSocket = new SoundTouchWebSocket(deviceConfig.host);
+    const queueFile = `bose-soundtouch-queue-${(deviceConfig.deviceID || deviceConfig.host).replace(/[^\w.-]/g, '_')}.json`;
+    this.client = new SoundTouchClient(deviceConfig.host, 8090, platform.config.requestTimeout || 5000, {
+      retries: platform.config.requestRetries,
+      playQueue: new PlayQueue(platform.log, path.join(platform.api.user.storagePath(), queueFile)),
+    });
+    this.webSocket = new SoundTouchWebSocket(deviceConfig.host, 8080, {
+      rawUpdates: platform.config.logRawUpdates,
+    });
+    this.streamMonitor = new IcyMetadataMonitor(platform.log);
+    this.groupVolume = new GroupVolume(platform.log, `${this.accessory.displayName} group volume`);
 
     // Set accessory information
     this.accessory.getService(this.platform.Service.AccessoryInformation)!
@@ -68,9 +143,34 @@ export class SoundTouchAccessory {
     // Setup Volume Lightbulb Service (for slider in Home app)
     this.setupVolumeLightbulb();
 
+    // Zone volume while master (optional)
+    if (this.deviceConfig.groupVolume) {
+      this.setupGroupVolume();
+    }
+
     // Setup Input Sources immediately (required for External Accessories)
     this.setupInputSources();
 
+    // Hardware buttons as programmable switches (for automations)
+    if (this.deviceConfig.buttonEvents) {
+      this.setupButtonEvents();
+    }
+
+    // Optional sensors for automations (playing, powered on, active source)
+    this.setupSensors();
+
+    if (this.deviceConfig.sleepTimer) {
+      this.setupSleepTimer();
+    }
+
+    if (this.deviceConfig.alarms?.length) {
+      this.setupAlarms();
+    }
+
+    if (this.deviceConfig.queueSwitches) {
+      this.setupQueueSwitches();
+    }
+
     // Initialize device (async - bass and multi-room added after init)
     this.initialize();
   }
@@ -110,6 +210,30 @@ export class SoundTouchAccessory {
       this.accessory.removeService(service);
     }
 
+    // Remove old programmable switches (hardware button events)
+    const oldButtons = this.accessory.services.filter(
+      (s) => s.UUID === this.platform.Service.StatelessProgrammableSwitch.UUID
+        || s.UUID === this.platform.Service.ServiceLabel.UUID,
+    );
+    for (const service of oldButtons) {
+      this.accessory.removeService(service);
+    }
+
+    // Remove old sensors
+    const oldSensors = this.accessory.services.filter(
+      (s) => s.UUID === this.platform.Service.OccupancySensor.UUID
+        || s.UUID === this.platform.Service.ContactSensor.UUID,
+    );
+    for (const service of oldSensors) {
+      this.accessory.removeService(service);
+    }
+
+    // Remove old sleep timer
+    const oldValve = this.accessory.getService(this.platform.Service.Valve);
+    if (oldValve) {
+      this.accessory.removeService(oldValve);
+    }
+
     // Remove old Television service to rebuild fresh
     const oldTV = this.accessory.getService(this.platform.Service.Television);
     if (oldTV) {
@@ -183,7 +307,7 @@ export class SoundTouchAccessory {
           await this.client.setVolume(volume);
           this.currentVolume = volume;
         } catch (error) {
-          this.platform.log.error('Failed to set volume:', error);
+          throw this.commandFailed('set volume', error);
         }
       });
 
@@ -196,7 +320,7 @@ export class SoundTouchAccessory {
           await this.client.setMute(mute);
           this.currentMute = mute;
         } catch (error) {
-          this.platform.log.error('Failed to set mute:', error);
+          throw this.commandFailed('set mute', error);
         }
       });
 
@@ -210,7 +334,7 @@ export class SoundTouchAccessory {
             await this.client.volumeDown();
           }
         } catch (error) {
-          this.platform.log.error('Failed to handle volume selector:', error);
+          throw this.commandFailed('change volume', error);
         }
       });
   }
@@ -245,7 +369,7 @@ export class SoundTouchAccessory {
             this.currentMute = false;
           }
         } catch (error) {
-          this.platform.log.error('Failed to toggle mute via lightbulb:', error);
+          throw this.commandFailed('toggle mute', error);
         }
       });
 
@@ -263,11 +387,73 @@ export class SoundTouchAccessory {
             this.currentMute = false;
           }
         } catch (error) {
-          this.platform.log.error('Failed to set volume via lightbulb:', error);
+          throw this.commandFailed('set volume', error);
         }
       });
   }
 
+  // Second slider for the whole zone: scales every member relative to its own level,
+  // off mutes them all. Shows the own volume while the speaker is not a zone master.
+  private setupGroupVolume(): void {
+    const name = this.deviceConfig.groupVolumeName || 'Gruppenlautstärke';
+    this.groupVolumeService = this.accessory.addService(this.platform.Service.Lightbulb, name, 'group-volume');
+    this.groupVolumeService
+      .setCharacteristic(this.platform.Characteristic.Name, name)
+      .addCharacteristic(this.platform.Characteristic.ConfiguredName)
+      .setValue(name);
+    this.televisionService.addLinkedService(this.groupVolumeService);
+
+    this.groupVolumeService.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.getZoneSpeakers().some(s => !s.currentMute) && this.getGroupVolume() > 0)
+      .onSet(async (value: CharacteristicValue) => {
+        const on = value as boolean;
+        const speakers = this.getZoneSpeakers().filter(s => s.currentMute === on);
+        const results = await Promise.allSettled(speakers.map(async (speaker) => {
+          await speaker.client.setMute(!on);
+          speaker.currentMute = !on;
+        }));
+        const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (failed) {
+          throw this.commandFailed('toggle group mute', failed.reason);
+        }
+      });
+
+    this.groupVolumeService.getCharacteristic(this.platform.Characteristic.Brightness)
+      .onGet(() => this.getGroupVolume())
+      .onSet(async (value: CharacteristicValue) => {
+        await this.groupVolume.set(value as number, this.getZoneSpeakers(), async (speaker, volume) => {
+          await speaker.client.setVolume(volume);
+          speaker.currentVolume = volume;
+          if (volume > 0 && speaker.currentMute) {
+            await speaker.client.setMute(false);
+            speaker.currentMute = false;
+          }
+        });
+      });
+  }
+
+  // This speaker and, while it is zone master, the members known to the platform
+  private getZoneSpeakers(): SoundTouchAccessory[] {
+    return this.isZoneMaster() ? this.platform.getZoneAccessories(this) : [this];
+  }
+
+  private getGroupVolume(): number {
+    return this.groupVolume.get(this.getZoneSpeakers());
+  }
+
+  private isZoneMaster(): boolean {
+    return this.platform.zones.getRole(this.macAddress) === 'master';
+  }
+
+  // Called for the master when its own or a member's volume changed
+  updateGroupVolume(): void {
+    this.groupVolumeService?.updateCharacteristic(this.platform.Characteristic.Brightness, this.getGroupVolume());
+    this.groupVolumeService?.updateCharacteristic(
+      this.platform.Characteristic.On,
+      this.getZoneSpeakers().some(s => !s.currentMute) && this.getGroupVolume() > 0,
+    );
+  }
+
   private async setupBassLightbulb(): Promise<void> {
     try {
       const caps = await this.client.getBassCapabilities();
@@ -305,7 +491,7 @@ export class SoundTouchAccessory {
             await this.client.setBass(level);
             this.currentBass = level;
           } catch (error) {
-            this.platform.log.error('Failed to set bass:', error);
+            throw this.commandFailed('set bass', error);
           }
         });
 
@@ -320,7 +506,7 @@ export class SoundTouchAccessory {
             await this.client.setBass(level);
             this.currentBass = level;
           } catch (error) {
-            this.platform.log.error('Failed to set bass:', error);
+            throw this.commandFailed('set bass', error);
           }
         });
 
@@ -346,50 +532,64 @@ export class SoundTouchAccessory {
   }
 
   private setupInputSources(): void {
-    this.inputServices = [];
-    this.inputMap = [];
-    let identifier = 1;
-
-    const useButtons = this.deviceConfig.presetDisplay === 'buttons';
-    const auxName = this.deviceConfig.auxName || 'AUX Eingang';
-    const btName = this.deviceConfig.bluetoothName || 'Bluetooth';
-
-    if (!useButtons) {
-      // Menu mode: add configured presets as InputSources
-      for (let i = 1; i <= 6; i++) {
-        const configPreset = this.deviceConfig.presets?.find(p => p.slot === i);
-        if (!configPreset || !configPreset.name) {
-          continue;
-        }
+    if (this.deviceConfig.presetDisplay === 'buttons') {
+      // Button mode: separate Switches for everything
+      this.setupPresetButtons();
+      return;
+    }
+    // Until /sources has been read, offer AUX and Bluetooth like most models have
+    this.buildInputSources([
+      { source: 'AUX', sourceAccount: 'AUX', status: 'READY', isLocal: true, multiroomAllowed: true },
+      { source: 'BLUETOOTH', status: 'READY', isLocal: true, multiroomAllowed: true },
+    ]);
+  }
 
-        this.addInputSource(configPreset.name, `preset-${i}`, identifier, 'APPLICATION');
-        this.inputMap.push({ type: 'preset', slot: i });
-        identifier++;
+  // Sync the InputSource list: configured presets first, then the device's selectable sources.
+  // Inputs keep their subtype and identifier once added; afterwards only names and visibility change.
+  private buildInputSources(sources: Source[]): void {
+    const selectable = sources.filter(s => !HIDDEN_SOURCES.has(s.source));
+    const presets = (this.deviceConfig.presets || [])
+      .filter(p => p.slot >= 1 && p.slot <= 6 && p.name)
+      .sort((a, b) => a.slot - b.slot);
+
+    const order: number[] = []; // Identifiers in display order
+    const added = this.inputServices.length;
+    for (const preset of presets) {
+      const index = this.inputMap.findIndex(m => m.type === 'preset' && m.slot === preset.slot);
+      if (index < 0) {
+        this.addInputSource(preset.name, `preset-${preset.slot}`, this.inputMap.length + 1, 'APPLICATION');
+        this.inputMap.push({ type: 'preset', slot: preset.slot });
       }
+      order.push((index < 0 ? this.inputMap.length - 1 : index) + 1);
     }
 
-    if (!useButtons) {
-      // Menu mode: AUX and Bluetooth as InputSources
-      this.addInputSource(auxName, 'aux', identifier, 'OTHER');
-      this.inputMap.push({ type: 'aux', slot: 0 });
-      identifier++;
-
-      this.addInputSource(btName, 'bluetooth', identifier, 'OTHER');
-      this.inputMap.push({ type: 'bluetooth', slot: 0 });
-    } else {
-      // Button mode: separate Switches for everything
-      this.setupPresetButtons();
+    for (const source of selectable) {
+      const name = this.getSourceName(source.source, source.sourceAccount, source.displayName);
+      const index = this.inputMap.findIndex(m => m.type === 'source' && m.source === source.source
+        && m.sourceAccount === source.sourceAccount);
+      if (index < 0) {
+        const subtype = `source-${source.source}${source.sourceAccount ? `-${source.sourceAccount}` : ''}`;
+        this.addInputSource(name, subtype, this.inputMap.length + 1, source.source === 'PRODUCT' ? 'HDMI' : 'OTHER');
+        this.inputMap.push({ type: 'source', source: source.source, sourceAccount: source.sourceAccount });
+      } else {
+        this.renameInputSource(this.inputServices[index], name);
+      }
+      order.push((index < 0 ? this.inputMap.length - 1 : index) + 1);
+    }
+    this.updateInputVisibility(selectable);
+    if (this.inputServices.length === added) {
+      return;
     }
 
-    // Set DisplayOrder TLV8 to force correct ordering in HomeKit
-    const totalInputs = this.inputServices.length;
+    // Set DisplayOrder TLV8 to force correct ordering in HomeKit; inputs the device no longer lists go last
+    const identifiers = [...order, ...this.inputMap.map((_, i) => i + 1).filter(id => !order.includes(id))];
     const tlv8Bytes: number[] = [];
-    for (let i = 1; i <= totalInputs; i++) {
-      tlv8Bytes.push(0x01, 0x01, i); // TAG=1, LENGTH=1, VALUE=identifier
-      if (i < totalInputs) {
+    identifiers.forEach((identifier, i) => {
+      tlv8Bytes.push(0x01, 0x01, identifier); // TAG=1, LENGTH=1, VALUE=identifier
+      if (i < identifiers.length - 1) {
         tlv8Bytes.push(0x00, 0x00); // TAG=0, LENGTH=0 (separator)
       }
-    }
+    });
     this.televisionService.setCharacteristic(
       this.platform.Characteristic.DisplayOrder,
       Buffer.from(tlv8Bytes).toString('base64'),
@@ -398,6 +598,44 @@ export class SoundTouchAccessory {
     this.platform.log.info(`Setup ${this.inputServices.length} input sources for ${this.accessory.displayName}`);
   }
 
+  private getSourceName(source: string, sourceAccount?: string, displayName?: string): string {
+    switch (source) {
+      case 'AUX':
+        return this.deviceConfig.auxName || 'AUX Eingang';
+      case 'BLUETOOTH':
+        return this.deviceConfig.bluetoothName || 'Bluetooth';
+      case 'PRODUCT':
+        // SoundTouch 300: sourceAccount TV, HDMI_1, ...
+        return (sourceAccount || 'TV').replace(/_/g, ' ');
+    }
+    const label = source.charAt(0) + source.slice(1).toLowerCase().replace(/_/g, ' ');
+    const account = displayName || sourceAccount;
+    return account && account !== source ? `${label} (${account})` : label;
+  }
+
+  private updateInputVisibility(sources: Source[]): void {
+    this.inputMap.forEach((mapping, index) => {
+      if (mapping.type !== 'source') {
+        return;
+      }
+      const source = sources.find(s => s.source === mapping.source && s.sourceAccount === mapping.sourceAccount);
+      const visible = source?.status === 'READY';
+      const state = visible
+        ? this.platform.Characteristic.CurrentVisibilityState.SHOWN
+        : this.platform.Characteristic.CurrentVisibilityState.HIDDEN;
+      this.inputServices[index]
+        .updateCharacteristic(this.platform.Characteristic.CurrentVisibilityState, state)
+        .updateCharacteristic(this.platform.Characteristic.IsConfigured, visible
+          ? this.platform.Characteristic.IsConfigured.CONFIGURED
+          : this.platform.Characteristic.IsConfigured.NOT_CONFIGURED);
+    });
+  }
+
+  // Sequential HomeKit identifier of a preset input (0 if the preset has no input)
+  private getPresetIdentifier(slot: number): number {
+    return this.inputMap.findIndex(m => m.type === 'preset' && m.slot === slot) + 1;
+  }
+
   private addInputSource(
     name: string, subtype: string, identifier: number, sourceType: string,
   ): void {
@@ -409,7 +647,9 @@ export class SoundTouchAccessory {
 
     const inputSourceType = sourceType === 'APPLICATION'
       ? this.platform.Characteristic.InputSourceType.APPLICATION
-      : this.platform.Characteristic.InputSourceType.OTHER;
+      : sourceType === 'HDMI'
+        ? this.platform.Characteristic.InputSourceType.HDMI
+        : this.platform.Characteristic.InputSourceType.OTHER;
 
     inputService
       .setCharacteristic(this.platform.Characteristic.Identifier, identifier)
@@ -424,12 +664,13 @@ export class SoundTouchAccessory {
         this.platform.Characteristic.CurrentVisibilityState.SHOWN);
 
     // Protect ConfiguredName from being overwritten by HomeKit setup wizard
+    const ownName = () => inputService.getCharacteristic(this.platform.Characteristic.Name).value as string;
     inputService.getCharacteristic(this.platform.Characteristic.ConfiguredName)
-      .onGet(() => name)
+      .onGet(ownName)
       .onSet(() => {
         // Ignore HomeKit's attempt to rename - always keep our name
         inputService.updateCharacteristic(
-          this.platform.Characteristic.ConfiguredName, name,
+          this.platform.Characteristic.ConfiguredName, ownName(),
         );
       });
 
@@ -437,6 +678,15 @@ export class SoundTouchAccessory {
     this.inputServices.push(inputService);
   }
 
+  // E.g. the placeholder AUX input once /sources reports the device's own label
+  private renameInputSource(service: Service, name: string): void {
+    if (service.getCharacteristic(this.platform.Characteristic.Name).value !== name) {
+      service
+        .updateCharacteristic(this.platform.Characteristic.Name, name)
+        .updateCharacteristic(this.platform.Characteristic.ConfiguredName, name);
+    }
+  }
+
   private setupPresetButtons(): void {
     this.presetSwitchServices = [];
     this.presetSwitchSlots = [];
@@ -569,6 +819,421 @@ export class SoundTouchAccessory {
     }
   }
 
+  private setupButtonEvents(): void {
+    // Required by HomeKit to tell several programmable switches on one accessory apart
+    this.accessory.addService(this.platform.Service.ServiceLabel)
+      .setCharacteristic(this.platform.Characteristic.ServiceLabelNamespace,
+        this.platform.Characteristic.ServiceLabelNamespace.ARABIC_NUMERALS);
+
+    const buttons: Array<{ key: string; name: string }> = [];
+    for (let slot = 1; slot <= 6; slot++) {
+      buttons.push({ key: `preset-${slot}`, name: `Preset ${slot}` });
+    }
+    buttons.push(
+      { key: 'power', name: 'Power' },
+      { key: 'volume-up', name: 'Volume +' },
+      { key: 'volume-down', name: 'Volume -' },
+    );
+
+    buttons.forEach((button, index) => {
+      const name = `${this.deviceConfig.name || this.accessory.displayName} ${button.name}`;
+      const service = this.accessory.addService(
+        this.platform.Service.StatelessProgrammableSwitch,
+        name,
+        `button-${button.key}`,
+      );
+      service
+        .setCharacteristic(this.platform.Characteristic.Name, name)
+        .setCharacteristic(this.platform.Characteristic.ServiceLabelIndex, index + 1);
+      // Only single presses - the device does not report double or long presses
+      service.getCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent)
+        .setProps({ validValues: [this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS] });
+      this.buttonServices.set(button.key, service);
+    });
+
+    this.platform.log.info(`Setup ${buttons.length} button events for ${this.accessory.displayName}`);
+  }
+
+  private triggerButtonEvent(key: string): void {
+    const service = this.buttonServices.get(key);
+    if (!service) {
+      return;
+    }
+    this.platform.log.debug(`${this.accessory.displayName} button event ${key}`);
+    service.updateCharacteristic(
+      this.platform.Characteristic.ProgrammableSwitchEvent,
+      this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+    );
+  }
+
+  // True once for the first state change after a key press on the device or its remote
+  private consumeUserActivity(): boolean {
+    if (Date.now() - this.lastUserActivity > SoundTouchAccessory.USER_ACTIVITY_WINDOW) {
+      return false;
+    }
+    this.lastUserActivity = 0;
+    return true;
+  }
+
+  private setupSensors(): void {
+    const displayName = this.deviceConfig.name || this.accessory.displayName;
+
+    if (this.deviceConfig.playingSensor) {
+      const name = this.deviceConfig.playingSensorName || `${displayName} spielt`;
+      this.playingSensorService = this.accessory.addService(this.platform.Service.OccupancySensor, name, 'sensor-playing');
+      this.playingSensorService.setCharacteristic(this.platform.Characteristic.Name, name);
+    }
+
+    if (this.deviceConfig.powerSensor) {
+      const name = this.deviceConfig.powerSensorName || `${displayName} an`;
+      this.powerSensorService = this.accessory.addService(this.platform.Service.ContactSensor, name, 'sensor-power');
+      this.powerSensorService.setCharacteristic(this.platform.Characteristic.Name, name);
+    }
+
+    for (const source of new Set(this.deviceConfig.sourceSensors || [])) {
+      const name = `${displayName} ${this.getSourceName(source)}`;
+      const service = this.accessory.addService(this.platform.Service.OccupancySensor, name, `sensor-source-${source}`);
+      service.setCharacteristic(this.platform.Characteristic.Name, name);
+      this.sourceSensorServices.set(source, service);
+    }
+
+    this.updateSensorStates();
+  }
+
+  private updateSensorStates(): void {
+    const playing = this.isPoweredOn && ['PLAY_STATE', 'BUFFERING_STATE'].includes(this.currentPlayStatus);
+    const occupancy = (active: boolean) => active
+      ? this.platform.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+      : this.platform.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+
+    this.playingSensorService?.updateCharacteristic(this.platform.Characteristic.OccupancyDetected, occupancy(playing));
+
+    // Contact "open" while the speaker is on
+    this.powerSensorService?.updateCharacteristic(
+      this.platform.Characteristic.ContactSensorState,
+      this.isPoweredOn
+        ? this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+        : this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED,
+    );
+
+    for (const [source, service] of this.sourceSensorServices) {
+      service.updateCharacteristic(
+        this.platform.Characteristic.OccupancyDetected,
+        occupancy(this.isPoweredOn && this.currentSource === source),
+      );
+    }
+  }
+
+  private setupSleepTimer(): void {
+    const name = `${this.deviceConfig.name || this.accessory.displayName} Sleep Timer`;
+    this.sleepTimerService = this.accessory.addService(this.platform.Service.Valve, name, 'sleep-timer');
+    this.sleepTimerService
+      .setCharacteristic(this.platform.Characteristic.Name, name)
+      .setCharacteristic(this.platform.Characteristic.ValveType, this.platform.Characteristic.ValveType.GENERIC_VALVE);
+
+    this.sleepTimerService.getCharacteristic(this.platform.Characteristic.Active)
+      .onGet(() => this.sleepEndsAt
+        ? this.platform.Characteristic.Active.ACTIVE
+        : this.platform.Characteristic.Active.INACTIVE)
+      .onSet((value) => {
+        if (value === this.platform.Characteristic.Active.ACTIVE) {
+          if (!this.isPoweredOn) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+          }
+          this.startSleepTimer();
+        } else if (this.sleepEndsAt) {
+          this.cancelSleepTimer('turned off in HomeKit');
+        }
+      });
+
+    this.sleepTimerService.getCharacteristic(this.platform.Characteristic.InUse)
+      .onGet(() => this.sleepEndsAt
+        ? this.platform.Characteristic.InUse.IN_USE
+        : this.platform.Characteristic.InUse.NOT_IN_USE);
+
+    this.sleepTimerService.getCharacteristic(this.platform.Characteristic.SetDuration)
+      .setProps({ maxValue: SoundTouchAccessory.SLEEP_TIMER_MAX })
+      .onGet(() => this.sleepDuration)
+      .onSet((value) => {
+        this.sleepDuration = value as number;
+        // A new duration while running restarts the countdown
+        if (this.sleepEndsAt) {
+          this.startSleepTimer();
+        }
+      });
+
+    this.sleepTimerService.getCharacteristic(this.platform.Characteristic.RemainingDuration)
+      .setProps({ maxValue: SoundTouchAccessory.SLEEP_TIMER_MAX })
+      .onGet(() => this.getSleepRemaining());
+  }
+
+  private getSleepRemaining(): number {
+    return this.sleepEndsAt ? Math.max(0, Math.round((this.sleepEndsAt - Date.now()) / 1000)) : 0;
+  }
+
+  private startSleepTimer(): void {
+    this.restoreSleepFadeVolume(this.sleepFadeVolume);
+    this.clearSleepTimer();
+
+    const duration = this.sleepDuration * 1000;
+    const fade = Math.min(Math.max(0, this.deviceConfig.sleepTimerFade ?? 5) * 60_000, duration);
+    this.sleepEndsAt = Date.now() + duration;
+    this.sleepTimer = setTimeout(() => {
+      this.sleepFadeVolume = this.currentVolume;
+      this.sleepFadeStep(this.currentVolume, fade);
+    }, duration - fade);
+
+    this.updateSleepTimerState();
+    this.platform.log.info(
+      `${this.accessory.displayName} sleep timer: off in ${Math.round(this.sleepDuration / 60)} min`
+      + (fade > 0 ? `, fading out over the last ${Math.round(fade / 60_000)} min` : ''),
+    );
+  }
+
+  // Lower the volume proportionally to the remaining time, then power off
+  private sleepFadeStep(startVolume: number, fade: number): void {
+    const remaining = this.sleepEndsAt - Date.now();
+    if (remaining <= 0 || fade <= 0) {
+      this.finishSleepTimer();
+      return;
+    }
+
+    const volume = Math.round(startVolume * remaining / fade);
+    if (volume !== this.currentVolume) {
+      this.client.setVolume(volume).catch((error) => {
+        this.platform.log.debug(`${this.accessory.displayName} sleep timer fade failed: ${describeError(error)}`);
+      });
+    }
+    const step = Math.min(SoundTouchAccessory.SLEEP_FADE_STEP, Math.max(1000, fade / 20));
+    this.sleepTimer = setTimeout(() => this.sleepFadeStep(startVolume, fade), Math.min(step, remaining));
+  }
+
+  private async finishSleepTimer(): Promise<void> {
+    const restoreVolume = this.sleepFadeVolume;
+    this.resetSleepTimer();
+
+    try {
+      await this.client.powerOff();
+      this.isPoweredOn = false;
+      this.endPlaylist();
+      this.updatePowerState();
+      this.updatePresetSwitchStates();
+      this.platform.log.info(`${this.accessory.displayName} sleep timer: Power OFF`);
+    } catch (error) {
+      this.platform.log.error(`${this.accessory.displayName}: sleep timer failed to power off: ${describeError(error)}`);
+    }
+    // Put the volume back so the next start is not silent
+    this.restoreSleepFadeVolume(restoreVolume);
+  }
+
+  private cancelSleepTimer(reason: string): void {
+    this.restoreSleepFadeVolume(this.sleepFadeVolume);
+    this.resetSleepTimer();
+    this.platform.log.info(`${this.accessory.displayName} sleep timer cancelled (${reason})`);
+  }
+
+  // Also in standby; if the speaker does not take it, at the next power-on
+  private restoreSleepFadeVolume(volume: number | undefined): void {
+    this.sleepFadeVolume = undefined;
+    if (volume === undefined) {
+      return;
+    }
+    this.pendingFadeVolume = undefined;
+    this.client.setVolume(volume).catch((error) => {
+      this.platform.log.debug(`${this.accessory.displayName} volume restore after fade failed: ${describeError(error)}`);
+      this.pendingFadeVolume = volume;
+    });
+  }
+
+  private resetSleepTimer(): void {
+    this.clearSleepTimer();
+    this.sleepEndsAt = 0;
+    this.sleepFadeVolume = undefined;
+    this.updateSleepTimerState();
+  }
+
+  private clearSleepTimer(): void {
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = undefined;
+    }
+  }
+
+  private updateSleepTimerState(): void {
+    if (!this.sleepTimerService) {
+      return;
+    }
+    const running = this.sleepEndsAt > 0;
+    this.sleepTimerService
+      .updateCharacteristic(this.platform.Characteristic.Active, running
+        ? this.platform.Characteristic.Active.ACTIVE
+        : this.platform.Characteristic.Active.INACTIVE)
+      .updateCharacteristic(this.platform.Characteristic.InUse, running
+        ? this.platform.Characteristic.InUse.IN_USE
+        : this.platform.Characteristic.InUse.NOT_IN_USE)
+      .updateCharacteristic(this.platform.Characteristic.RemainingDuration, this.getSleepRemaining());
+  }
+
+  private setupAlarms(): void {
+    const displayName = this.deviceConfig.name || this.accessory.displayName;
+    const deviceKey = this.deviceConfig.deviceID || this.deviceConfig.host;
+    const keys = new Set<string>();
+
+    this.deviceConfig.alarms!.forEach((alarm, index) => {
+      const time = normalizeTime(alarm.time);
+      if (!time || (!alarm.preset && !alarm.url)) {
+        this.platform.log.warn(`${displayName}: alarm ${index + 1} needs a time (HH:MM) and a preset or URL`);
+        return;
+      }
+
+      // Keyed on name, else time and days, so the enabled state and switch survive reordering the list
+      const days = [...(alarm.days || [])].sort().join('');
+      const key = (alarm.name || (days ? `${time} ${days}` : time)).toLowerCase().replace(/[^a-z0-9äöüß]+/g, '-');
+      const subtype = keys.has(key) ? `alarm-${key}-${index + 1}` : `alarm-${key}`;
+      keys.add(key);
+      const id = `${deviceKey}-${subtype}`;
+      const name = alarm.name || `Wecker ${time}`;
+      this.platform.alarmScheduler.add(id, alarm, this, `${displayName} ${name}`);
+      this.alarmIds.push(id);
+
+      const alarmSwitch = this.accessory.addService(this.platform.Service.Switch, name, subtype);
+      alarmSwitch
+        .setCharacteristic(this.platform.Characteristic.Name, name)
+        .addCharacteristic(this.platform.Characteristic.ConfiguredName)
+        .setValue(name);
+      alarmSwitch.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.platform.alarmScheduler.isEnabled(id))
+        .onSet((value) => this.platform.alarmScheduler.setEnabled(id, value as boolean));
+    });
+  }
+
+  // Shuffle and repeat of the DLNA play queue (NAS albums, music folder, playlist files)
+  private setupQueueSwitches(): void {
+    const queue = this.client.getPlayQueue();
+    const addSwitch = (name: string, subtype: string) => {
+      const service = this.accessory.addService(this.platform.Service.Switch, name, subtype);
+      service
+        .setCharacteristic(this.platform.Characteristic.Name, name)
+        .addCharacteristic(this.platform.Characteristic.ConfiguredName)
+        .setValue(name);
+      return service;
+    };
+
+    addSwitch(this.deviceConfig.shuffleName || 'Zufallswiedergabe', 'queue-shuffle').getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => queue.shuffle)
+      .onSet(async (value) => {
+        try {
+          await this.client.setQueueShuffle(value as boolean);
+        } catch (error) {
+          throw this.commandFailed('set shuffle', error);
+        }
+      });
+
+    const repeatAll = addSwitch(this.deviceConfig.repeatName || 'Wiederholen', 'queue-repeat');
+    const repeatOne = addSwitch(this.deviceConfig.repeatOneName || 'Titel wiederholen', 'queue-repeat-one');
+    const setRepeat = async (mode: RepeatMode, on: boolean) => {
+      const newMode = on ? mode : queue.repeat === mode ? 'off' : queue.repeat;
+      try {
+        await this.client.setQueueRepeat(newMode);
+      } catch (error) {
+        throw this.commandFailed('set repeat', error);
+      } finally {
+        // The two repeat switches exclude each other
+        repeatAll.updateCharacteristic(this.platform.Characteristic.On, queue.repeat === 'all');
+        repeatOne.updateCharacteristic(this.platform.Characteristic.On, queue.repeat === 'one');
+      }
+    };
+    repeatAll.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => queue.repeat === 'all')
+      .onSet((value) => setRepeat('all', value as boolean));
+    repeatOne.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => queue.repeat === 'one')
+      .onSet((value) => setRepeat('one', value as boolean));
+  }
+
+  // Previous/next track of the play queue, false if no queue is playing (the speaker handles the key then)
+  private async skipQueueTrack(direction: 1 | -1): Promise<boolean> {
+    if (this.client.getPlaylistInfo().total === 0 || this.currentSource !== 'UPNP') {
+      return false;
+    }
+    if (await this.client.skipTrack(direction)) {
+      const info = this.client.getPlaylistInfo();
+      this.platform.log.info(`${this.accessory.displayName} track ${info.index + 1}/${info.total}`);
+    }
+    return true;
+  }
+
+  // Called by the AlarmScheduler: power on quietly, play, then raise the volume step by step
+  async playAlarm(alarm: AlarmConfig): Promise<void> {
+    const startVolume = alarm.startVolume ?? 10;
+    const targetVolume = alarm.targetVolume ?? 30;
+    const ramp = Math.max(0, alarm.rampDuration ?? 10) * 60_000;
+
+    this.stopAlarmRamp();
+    await this.client.setVolume(startVolume);
+    if (!this.isPoweredOn) {
+      await this.wakeUp();
+    }
+
+    const preset = alarm.preset
+      ? this.deviceConfig.presets?.find(p => p.slot === alarm.preset)
+      : undefined;
+    if (preset) {
+      await this.playConfiguredPreset(preset);
+      this.lastActivePresetSlot = preset.slot;
+    } else if (alarm.url) {
+      await this.playConfiguredPreset({ slot: 0, name: alarm.name || 'Wecker', type: 'radio', url: alarm.url });
+      this.lastActivePresetSlot = 0;
+    } else {
+      throw new Error(`preset ${alarm.preset} is not configured`);
+    }
+    this.updatePresetSwitchStates();
+
+    this.alarmRampVolume = startVolume;
+    if (ramp > 0 && targetVolume !== startVolume) {
+      const step = Math.max(1000, ramp / Math.abs(targetVolume - startVolume));
+      const startedAt = Date.now();
+      this.alarmRampTimer = setTimeout(() => this.alarmRampStep(startVolume, targetVolume, ramp, startedAt, step), step);
+    } else {
+      await this.client.setVolume(targetVolume);
+    }
+  }
+
+  // Power on and wait until the device has left standby, else the DLNA command that follows is lost
+  private async wakeUp(): Promise<void> {
+    await this.client.powerOn();
+    this.isPoweredOn = true;
+    this.updatePowerState();
+    for (let attempt = 0; attempt < 20; attempt++) {
+      if ((await this.client.getNowPlaying()).source !== 'STANDBY') {
+        return;
+      }
+      await new Promise(r => setTimeout(r, 500));
+    }
+    this.platform.log.warn(`${this.accessory.displayName} is still in standby after powering on`);
+  }
+
+  private alarmRampStep(startVolume: number, targetVolume: number, ramp: number, startedAt: number, step: number): void {
+    const progress = Math.min(1, (Date.now() - startedAt) / ramp);
+    const volume = Math.round(startVolume + (targetVolume - startVolume) * progress);
+    if (volume !== this.alarmRampVolume) {
+      this.alarmRampVolume = volume;
+      this.client.setVolume(volume).catch((error) => {
+        this.platform.log.debug(`${this.accessory.displayName} alarm volume ramp failed: ${describeError(error)}`);
+      });
+    }
+    this.alarmRampTimer = progress < 1
+      ? setTimeout(() => this.alarmRampStep(startVolume, targetVolume, ramp, startedAt, step), step)
+      : undefined;
+  }
+
+  private stopAlarmRamp(): void {
+    if (this.alarmRampTimer) {
+      clearTimeout(this.alarmRampTimer);
+      this.alarmRampTimer = undefined;
+    }
+  }
+
   private setupGroupSwitch(): void {
     const groupName = this.deviceConfig.multiRoomName || 'Multi-Room';
     this.groupSwitchService = this.accessory.addService(
@@ -615,12 +1280,11 @@ export class SoundTouchAccessory {
       }
 
       try {
-        const zone = await master.getClient().getZone();
         const slave = {
           ipaddress: this.deviceConfig.host,
           macaddress: myInfo.macAddress,
         };
-        if (zone && zone.members.length > 0) {
+        if (this.platform.zones.getRole(masterInfo.macAddress) === 'master') {
           await master.getClient().addZoneSlave(masterInfo.macAddress, [slave]);
         } else {
           await master.getClient().createZone(masterInfo.macAddress, [slave]);
@@ -630,7 +1294,9 @@ export class SoundTouchAccessory {
           `${this.accessory.displayName} grouped with ${master.getAccessoryName()}`,
         );
       } catch (error) {
-        this.platform.log.error('Failed to create group:', error);
+        this.platform.log.error(
+          `${this.accessory.displayName}: failed to create group: ${describeError(error)}`,
+        );
         setTimeout(() => {
           this.groupSwitchService.updateCharacteristic(
             this.platform.Characteristic.On, false,
@@ -639,7 +1305,7 @@ export class SoundTouchAccessory {
       }
     } else {
       // Remove self from zone
-      const master = await this.platform.findMasterForSlave(this);
+      const master = this.platform.findMasterForSlave(this);
       if (master) {
         const masterInfo = master.getDeviceInfo();
         const myInfo = this.deviceInfo;
@@ -653,7 +1319,9 @@ export class SoundTouchAccessory {
               `${this.accessory.displayName} removed from group`,
             );
           } catch (error) {
-            this.platform.log.error('Failed to remove from group:', error);
+            this.platform.log.error(
+              `${this.accessory.displayName}: failed to leave group: ${describeError(error)}`,
+            );
           }
         }
       }
@@ -687,17 +1355,14 @@ export class SoundTouchAccessory {
           }
           break;
         }
-        case 'aux':
-          await this.client.selectAux();
-          this.lastActivePresetSlot = 0;
-          this.platform.log.info(`${this.accessory.displayName} selected AUX`);
-          break;
-        case 'bluetooth':
-          await this.client.selectBluetooth();
+        case 'source':
+          if (mapping.source === 'AUX') {
+            await this.client.selectAux();
+          } else {
+            await this.client.selectSource(mapping.source, mapping.sourceAccount);
+          }
           this.lastActivePresetSlot = 0;
-          this.platform.log.info(
-            `${this.accessory.displayName} selected Bluetooth`,
-          );
+          this.platform.log.info(`${this.accessory.displayName} selected ${mapping.source}`);
           break;
       }
 
@@ -707,10 +1372,7 @@ export class SoundTouchAccessory {
       }
       this.updatePresetSwitchStates();
     } catch (error) {
-      this.platform.log.error('Failed to set active input:', error);
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
+      throw this.commandFailed('set active input', error);
     }
   }
 
@@ -729,10 +1391,14 @@ export class SoundTouchAccessory {
           await this.client.volumeDown();
           break;
         case this.platform.Characteristic.RemoteKey.ARROW_LEFT:
-          await this.client.previousTrack();
+          if (!await this.skipQueueTrack(-1)) {
+            await this.client.previousTrack();
+          }
           break;
         case this.platform.Characteristic.RemoteKey.ARROW_RIGHT:
-          await this.client.nextTrack();
+          if (!await this.skipQueueTrack(1)) {
+            await this.client.nextTrack();
+          }
           break;
         case this.platform.Characteristic.RemoteKey.SELECT:
           await this.client.playPause();
@@ -745,7 +1411,9 @@ export class SoundTouchAccessory {
           break;
       }
     } catch (error) {
-      this.platform.log.error('Failed to handle remote key:', error);
+      this.platform.log.error(
+        `${this.accessory.displayName}: failed to handle remote key: ${describeError(error)}`,
+      );
     }
   }
 
@@ -756,11 +1424,13 @@ export class SoundTouchAccessory {
     if (config.type !== 'nas') {
       this.client.clearPlaylist();
     }
+    this.stopStreamMonitor();
+    this.stopPlaylistWatch();
 
     switch (config.type) {
       case 'radio':
         if (config.url) {
-          await this.client.playUrl(config.url, config.name);
+          await this.playRadio(config.url, config.name, config.relay);
         }
         break;
 
@@ -812,9 +1482,12 @@ export class SoundTouchAccessory {
         break;
 
       case 'nas':
-        if (config.nasLocation && config.nasServer) {
+        if (config.nasLocation && config.nasServer === 'local') {
+          await this.playLocalMusic(config.nasLocation, config.name, config.nasOrder, config.nasLimit);
+        } else if (config.nasLocation && config.nasServer) {
           await this.client.playStoredMusic(
             config.nasLocation, config.nasServer, undefined, config.name,
+            { order: config.nasOrder, limit: config.nasLimit },
           );
         }
         break;
@@ -822,10 +1495,106 @@ export class SoundTouchAccessory {
       default:
         this.platform.log.warn(`Unknown preset type: ${config.type}`);
     }
+    this.startPlaylistWatch();
   }
 
-  private initRetryTimer?: ReturnType<typeof setTimeout>;
-  private static readonly INIT_RETRY_INTERVAL = 30_000; // 30 seconds
+  // Radio URL, which may also be a playlist file. Entries with a length are played one after
+  // another like a NAS album, otherwise they are alternative addresses of the station.
+  private async playRadio(url: string, name: string, relay?: boolean): Promise<void> {
+    let entries: PlaylistEntry[] | undefined;
+    if (await isPlaylistUrl(url.trim())) {
+      try {
+        entries = await resolvePlaylist(url.trim());
+      } catch (error) {
+        this.platform.log.warn(`${this.accessory.displayName}: cannot read ${url}: ${describeError(error)}`);
+      }
+    }
+    if (!entries) {
+      await this.playStream(url, name, relay);
+      return;
+    }
+    if (entries.length === 0) {
+      throw new SoundTouchError(`No streams found in playlist ${url}`, this.deviceConfig.host);
+    }
+
+    if (entries.length > 1 && entries.every(entry => entry.duration)) {
+      const tracks: Array<{ url: string; title: string }> = [];
+      for (const entry of entries) {
+        tracks.push({ url: await this.getStreamUrl(entry.url, relay), title: entry.title });
+      }
+      await this.client.playTracks(tracks, name);
+      return;
+    }
+
+    // First address that answers, the last one is tried anyway
+    for (const [index, entry] of entries.entries()) {
+      if (index < entries.length - 1 && !await isStreamReachable(entry.url, false)) {
+        this.platform.log.debug(`${this.accessory.displayName}: ${entry.url} not reachable, trying next playlist entry`);
+        continue;
+      }
+      await this.playStream(entry.url, name, relay);
+      return;
+    }
+  }
+
+  // Live stream; its song titles are followed via ICY metadata
+  private async playStream(url: string, name: string, relay?: boolean): Promise<void> {
+    const streamUrl = await this.getStreamUrl(url, relay);
+    await this.client.playUrl(streamUrl, name);
+
+    this.streamUrl = streamUrl;
+    this.streamMonitor.start(url.trim(), (title) => {
+      this.streamTitle = title;
+      this.platform.log.info(`${this.accessory.displayName} now playing: ${title.raw}`);
+      // The display only changes with new DIDL metadata, which restarts the stream
+      if (this.deviceConfig.streamTitleOnDisplay && !this.announcing && this.streamUrl === streamUrl) {
+        this.client.playUrl(streamUrl, title.raw).catch((error) => {
+          this.platform.log.debug(`${this.accessory.displayName} display update failed: ${describeError(error)}`);
+        });
+      }
+    });
+  }
+
+  private stopStreamMonitor(): void {
+    this.streamMonitor.stop();
+    this.streamUrl = undefined;
+    this.streamTitle = undefined;
+  }
+
+  // The speaker only plays plain HTTP. HTTPS streams use their http:// variant if the station
+  // still serves one, otherwise (or if the preset asks for it) they go through the relay.
+  private async getStreamUrl(url: string, relay = false): Promise<string> {
+    if (!/^https:\/\//i.test(url.trim())) {
+      return url;
+    }
+    const mediaServer = this.platform.mediaServer;
+    if (!relay && await mediaServer.supportsPlainHttp(url)) {
+      return url;
+    }
+    if (!relay) {
+      this.platform.log.info(`${this.accessory.displayName}: ${url} is only available via HTTPS, using the relay`);
+    }
+    await mediaServer.start();
+    return mediaServer.getUrl(mediaServer.addRelay(url.trim()), this.deviceConfig.host);
+  }
+
+  // File or folder from the music directory, served by the built-in media server
+  private async playLocalMusic(relativePath: string, name: string, order?: TrackOrder, limit?: number): Promise<void> {
+    const mediaServer = this.platform.mediaServer;
+    if (!mediaServer.hasMusicDirectory) {
+      throw new SoundTouchError('No musicDirectory configured', this.deviceConfig.host);
+    }
+    await mediaServer.start();
+
+    const tracks = orderTracks(await mediaServer.listTracks(relativePath), order, limit);
+    if (tracks.length === 0) {
+      throw new SoundTouchError(`No tracks found in ${relativePath}`, this.deviceConfig.host);
+    }
+    await this.client.playTracks(
+      tracks.map(track => ({ url: mediaServer.getUrl(track.path, this.deviceConfig.host), title: track.title })),
+      name,
+    );
+  }
 
   private async initialize(): Promise<void> {
     try {
@@ -840,9 +1609,8 @@ export class SoundTouchAccessory {
 
       // Get initial state
       await this.refreshState();
-
-      // Update input source names from config
-      this.updateInputSourceNames();
+      await this.refreshSources();
+      await this.resumePlaylist();
 
       // Setup bass control if available (order: Volume, Bass, Multi-Room)
       await this.setupBassLightbulb();
@@ -854,74 +1622,69 @@ export class SoundTouchAccessory {
       this.setupWebSocket();
 
       this.platform.log.info(`Initialized ${this.accessory.displayName} (${this.deviceConfig.host})`);
+      this.platform.stereoPairs.handleSpeakerReady(this);
 
     } catch (error) {
-      this.platform.log.error(`Failed to initialize ${this.accessory.displayName} (${this.deviceConfig.host}): ${error}`);
+      this.platform.log.error(`Failed to initialize ${this.accessory.displayName} (${this.deviceConfig.host}): ${describeError(error)}`);
       this.platform.log.info(`Will retry in ${SoundTouchAccessory.INIT_RETRY_INTERVAL / 1000}s...`);
       this.initRetryTimer = setTimeout(() => this.initialize(), SoundTouchAccessory.INIT_RETRY_INTERVAL);
     }
   }
 
-  private updateInputSourceNames(): void {
-    // Update preset names based on config only - ignore old device presets
-    for (let i = 1; i <= 6; i++) {
-      const configPreset = this.deviceConfig.presets?.find(p => p.slot === i);
+  private setupWebSocket(): void {
+    this.webSocket.on('volumeUpdated', (data) => this.handleVolumeUpdate(data));
+    this.webSocket.on('nowPlayingUpdated', (data) => this.handleNowPlayingUpdate(data));
+    this.webSocket.on('bassUpdated', (data) => this.handleBassUpdate(data));
+    this.webSocket.on('zoneUpdated', (data) => this.platform.updateZone(this, data));
+
+    // Same handlers for the HTTP polling fallback
+    this.poller = new StatePoller(this.client, this.getPollingInterval(), this.bassAvailable);
+    this.poller.on('volumeUpdated', (data) => this.handleVolumeUpdate(data));
+    this.poller.on('nowPlayingUpdated', (data) => this.handleNowPlayingUpdate(data));
+    this.poller.on('bassUpdated', (data) => this.handleBassUpdate(data));
+    this.poller.on('zoneUpdated', (data) => this.platform.updateZone(this, data));
+    this.poller.on('error', (error) => {
+      this.platform.log.debug(`Polling failed for ${this.accessory.displayName}: ${describeError(error)}`);
+    });
 
-      let presetName: string;
-      if (configPreset && configPreset.name) {
-        presetName = configPreset.name;
-      } else {
-        presetName = `Preset ${i}`;
-      }
+    this.webSocket.on('nameUpdated', (data) => this.handleNameUpdate(data));
+    this.webSocket.on('infoUpdated', () => this.refreshDeviceInfo());
+    this.webSocket.on('sourcesUpdated', () => this.refreshSources());
 
-      // Find and update the input service
-      const inputService = this.inputServices.find(s =>
-        s.getCharacteristic(this.platform.Characteristic.Identifier).value === i,
+    this.webSocket.on('errorUpdate', (data) => {
+      this.platform.log.warn(
+        `${this.accessory.displayName} reported error ${data.name} (${data.value})${data.message ? `: ${data.message}` : ''}`,
       );
-      if (inputService) {
-        inputService.updateCharacteristic(this.platform.Characteristic.ConfiguredName, presetName);
-      }
-    }
-  }
-
-  private setupWebSocket(): void {
-    this.webSocket.on('volumeUpdated', (data: VolumeUpdate) => {
-      this.currentVolume = data.actualvolume;
-      this.currentMute = data.muteenabled;
-      this.updateVolumeCharacteristics();
-      this.platform.log.debug(`${this.accessory.displayName} Volume: ${this.currentVolume}, Mute: ${this.currentMute}`);
     });
 
-    this.webSocket.on('nowPlayingUpdated', (data: NowPlayingUpdate) => {
-      const wasOn = this.isPoweredOn;
-      this.isPoweredOn = data.source !== 'STANDBY';
+    this.webSocket.on('recentsUpdated', (data) => {
+      const latest = data.recents[0];
+      this.platform.log.debug(
+        `${this.accessory.displayName} recents updated${latest ? `, latest: ${latest.name || latest.source}` : ''}`,
+      );
+    });
 
-      this.updatePowerState();
-      if (!this.isPoweredOn && wasOn) {
-        this.updatePresetSwitchStates();
-      }
+    this.webSocket.on('groupUpdated', (data) => {
+      this.platform.log.debug(
+        `${this.accessory.displayName} stereo group ${data.name || data.id || ''}: ${data.status || 'updated'}`,
+      );
+      this.platform.stereoPairs.handleGroupUpdate(this, data);
+    });
 
-      if (wasOn !== this.isPoweredOn) {
-        this.platform.log.info(`${this.accessory.displayName} Power: ${this.isPoweredOn ? 'ON' : 'OFF'}`);
-      }
+    this.webSocket.on('toneControlsUpdated', (data) => {
+      this.platform.log.debug(
+        `${this.accessory.displayName} tone controls: bass ${data.bass?.value}, treble ${data.treble?.value}`,
+      );
+    });
 
-      this.currentPlayStatus = data.playStatus || '';
-      this.platform.log.debug(`${this.accessory.displayName} Source: ${data.source}, Playing: ${data.playStatus}`);
+    this.webSocket.on('userActivityUpdate', () => {
+      this.platform.log.debug(`${this.accessory.displayName} user activity on device`);
+      // The update carries no key - the following volume or power change tells which one it was
+      this.lastUserActivity = Date.now();
+    });
 
-      // Auto-play next track when current track ends (NAS playlist)
-      if (data.playStatus === 'STOP_STATE' && data.source === 'UPNP') {
-        const info = this.client.getPlaylistInfo();
-        if (info.total > 0) {
-          this.client.playNextTrack().then((hasNext) => {
-            if (hasNext) {
-              const newInfo = this.client.getPlaylistInfo();
-              this.platform.log.info(
-                `${this.accessory.displayName} next track ${newInfo.index + 1}/${newInfo.total}`,
-              );
-            }
-          }).catch(() => { /* ignore */ });
-        }
-      }
+    this.webSocket.on('rawUpdate', (data) => {
+      this.platform.log.debug(`${this.accessory.displayName} unhandled update ${data.type}: ${data.xml}`);
     });
 
     this.webSocket.on('nowSelectionUpdated', (data: PresetSelectionUpdate) => {
@@ -930,41 +1693,46 @@ export class SoundTouchAccessory {
         this.platform.log.info(
           `${this.accessory.displayName} hardware button ${data.presetId} pressed`,
         );
+        this.lastUserActivity = 0;
+        this.triggerButtonEvent(`preset-${data.presetId}`);
         this.handleHardwarePreset(data.presetId);
       }
     });
 
-    this.webSocket.on('bassUpdated', (data) => {
-      if (this.bassAvailable && this.bassLightbulbService) {
-        this.currentBass = data.actualbass;
-        this.bassLightbulbService.updateCharacteristic(
-          this.platform.Characteristic.RotationSpeed,
-          this.bassToPercent(this.currentBass),
-        );
-        this.bassLightbulbService.updateCharacteristic(
-          this.platform.Characteristic.On,
-          this.currentBass > this.bassMin,
-        );
-        this.platform.log.debug(
-          `${this.accessory.displayName} Bass: ${this.currentBass}`,
+    this.webSocket.on('connected', () => {
+      const metrics = this.webSocket.getMetrics();
+      if (metrics.reconnects > 0 && metrics.lastDisconnected) {
+        const downtime = Math.round((Date.now() - metrics.lastDisconnected.getTime()) / 1000);
+        this.platform.log.info(
+          `WebSocket reconnected for ${this.accessory.displayName} after ${downtime}s (reconnect #${metrics.reconnects})`,
         );
+      } else {
+        this.platform.log.info(`WebSocket connected for ${this.accessory.displayName}`);
       }
-    });
-
-    this.webSocket.on('zoneUpdated', () => {
-      // Zone changed - refresh group state
-      this.refreshGroupState();
-    });
-
-    this.webSocket.on('connected', () => {
-      this.platform.log.info(`WebSocket connected for ${this.accessory.displayName}`);
+      this.stopPollingFallback();
       // Refresh state on (re)connect so HomeKit gets the current status
       this.refreshState();
       this.refreshGroupState();
     });
 
     this.webSocket.on('disconnected', () => {
-      this.platform.log.debug(`WebSocket disconnected for ${this.accessory.displayName}`);
+      const lastMessage = this.webSocket.getMetrics().lastMessage;
+      this.platform.log.debug(
+        `WebSocket disconnected for ${this.accessory.displayName}`
+        + (lastMessage ? ` (last message ${lastMessage.toLocaleTimeString()})` : ''),
+      );
+      this.schedulePollingFallback();
+    });
+
+    this.webSocket.on('reconnecting', (attempt, delay) => {
+      const message = `WebSocket for ${this.accessory.displayName}: reconnect attempt ${attempt}`
+        + ` in ${Math.round(delay / 1000)}s`;
+      // Warn once when the box stays unreachable, otherwise keep the log quiet
+      if (attempt === 5) {
+        this.platform.log.warn(message);
+      } else {
+        this.platform.log.debug(message);
+      }
     });
 
     this.webSocket.on('error', (error) => {
@@ -972,6 +1740,265 @@ export class SoundTouchAccessory {
     });
 
     this.webSocket.connect();
+    this.schedulePollingFallback();
+  }
+
+  private getPollingInterval(): number {
+    return this.platform.config.pollingInterval ?? 10000;
+  }
+
+  // Poll via HTTP when the WebSocket stays down (port 8080 blocked, old firmware)
+  private schedulePollingFallback(): void {
+    if (this.getPollingInterval() <= 0 || this.pollingFallbackTimer || this.poller?.isRunning) {
+      return;
+    }
+    this.pollingFallbackTimer = setTimeout(() => {
+      this.pollingFallbackTimer = undefined;
+      if (!this.webSocket.isConnected && this.poller) {
+        this.platform.log.info(
+          `${this.accessory.displayName}: WebSocket unavailable, polling every ${this.getPollingInterval() / 1000}s`,
+        );
+        this.poller.start();
+      }
+    }, SoundTouchAccessory.POLLING_FALLBACK_DELAY);
+  }
+
+  private stopPollingFallback(): void {
+    if (this.pollingFallbackTimer) {
+      clearTimeout(this.pollingFallbackTimer);
+      this.pollingFallbackTimer = undefined;
+    }
+    if (this.poller?.isRunning) {
+      this.poller.stop();
+      this.platform.log.info(`${this.accessory.displayName}: WebSocket available again, polling stopped`);
+    }
+  }
+
+  private async handleNameUpdate(data: NameUpdate): Promise<void> {
+    try {
+      const name = data.name ?? await this.client.getName();
+      if (this.deviceInfo) {
+        this.deviceInfo.name = name;
+      }
+      if (this.deviceConfig.name) {
+        // A name from the plugin config always wins
+        this.platform.log.info(`${this.deviceConfig.name} was renamed to "${name}" on the device, keeping configured name`);
+        return;
+      }
+      if (name && name !== this.accessory.displayName) {
+        this.platform.log.info(`${this.accessory.displayName} renamed to "${name}"`);
+        this.accessory.updateDisplayName(name);
+        this.televisionService
+          .updateCharacteristic(this.platform.Characteristic.ConfiguredName, name)
+          .updateCharacteristic(this.platform.Characteristic.Name, name);
+      }
+    } catch (error) {
+      this.platform.log.debug(`Failed to read new name of ${this.accessory.displayName}: ${describeError(error)}`);
+    }
+  }
+
+  private async refreshDeviceInfo(): Promise<void> {
+    try {
+      this.deviceInfo = await this.client.getInfo();
+      this.accessory.getService(this.platform.Service.AccessoryInformation)!
+        .updateCharacteristic(this.platform.Characteristic.Model, this.deviceInfo.type)
+        .updateCharacteristic(this.platform.Characteristic.SerialNumber, this.deviceInfo.deviceID);
+    } catch (error) {
+      this.platform.log.debug(`Failed to refresh info of ${this.accessory.displayName}: ${describeError(error)}`);
+    }
+  }
+
+  private async refreshSources(): Promise<void> {
+    try {
+      const sources = await this.client.getSources();
+      for (const source of sources) {
+        const previous = this.sources.find(
+          s => s.source === source.source && s.sourceAccount === source.sourceAccount,
+        );
+        if (previous && previous.status !== source.status) {
+          this.platform.log.info(
+            `${this.accessory.displayName} source ${source.source}${source.sourceAccount ? ` (${source.sourceAccount})` : ''}`
+            + `: ${source.status}`,
+          );
+        }
+      }
+      this.sources = sources;
+      if (this.deviceConfig.presetDisplay !== 'buttons') {
+        this.buildInputSources(sources);
+      }
+    } catch (error) {
+      this.platform.log.debug(`Failed to refresh sources of ${this.accessory.displayName}: ${describeError(error)}`);
+    }
+  }
+
+  private handleVolumeUpdate(data: VolumeUpdate): void {
+    // Volume changed by hand during the wake-up ramp - leave it there
+    if (this.alarmRampTimer && Math.abs(data.actualvolume - this.alarmRampVolume) > 1) {
+      this.stopAlarmRamp();
+      this.platform.log.debug(`${this.accessory.displayName} alarm volume ramp stopped (volume changed)`);
+    }
+    if (data.actualvolume !== this.currentVolume && this.consumeUserActivity()) {
+      this.triggerButtonEvent(data.actualvolume > this.currentVolume ? 'volume-up' : 'volume-down');
+    }
+    this.currentVolume = data.actualvolume;
+    this.currentMute = data.muteenabled;
+    this.updateVolumeCharacteristics();
+    // Reflect the change on the group volume of this speaker and of its zone master
+    this.updateGroupVolume();
+    this.platform.findMasterForSlave(this)?.updateGroupVolume();
+    this.platform.log.debug(`${this.accessory.displayName} Volume: ${this.currentVolume}, Mute: ${this.currentMute}`);
+  }
+
+  private handleNowPlayingUpdate(data: NowPlayingUpdate): void {
+    const wasOn = this.isPoweredOn;
+    this.isPoweredOn = data.source !== 'STANDBY';
+
+    this.updatePowerState();
+    if (!this.isPoweredOn && wasOn) {
+      this.updatePresetSwitchStates();
+    }
+
+    if (wasOn !== this.isPoweredOn) {
+      this.platform.log.info(`${this.accessory.displayName} Power: ${this.isPoweredOn ? 'ON' : 'OFF'}`);
+      if (this.consumeUserActivity()) {
+        this.triggerButtonEvent('power');
+      }
+    }
+
+    if (!this.isPoweredOn) {
+      this.stopAlarmRamp();
+    } else if (this.pendingFadeVolume !== undefined) {
+      this.restoreSleepFadeVolume(this.pendingFadeVolume);
+    }
+
+    if (this.streamUrl && !this.announcing && (!this.isPoweredOn || data.source !== 'UPNP')) {
+      this.stopStreamMonitor();
+    }
+
+    // Manual power off or source change ends the sleep timer
+    if (this.sleepEndsAt && !this.announcing) {
+      if (!this.isPoweredOn) {
+        this.cancelSleepTimer('powered off');
+      } else if (this.currentSource && this.currentSource !== 'STANDBY' && data.source !== this.currentSource) {
+        this.cancelSleepTimer(`source changed to ${data.source}`);
+      }
+    }
+
+    // Standby or another source ends the play queue, so it cannot turn the speaker back on
+    if (this.currentSource === 'UPNP' && data.source !== 'UPNP' && !this.announcing) {
+      this.endPlaylist();
+    }
+    // Stop or pause on the device or its remote
+    if ((data.playStatus === 'STOP_STATE' || data.playStatus === 'PAUSE_STATE') && this.consumeUserActivity()) {
+      this.client.markStoppedByUser();
+    }
+
+    this.currentPlayStatus = data.playStatus || '';
+    this.currentSource = data.source;
+    this.updateSensorStates();
+    this.platform.log.debug(`${this.accessory.displayName} Source: ${data.source}, Playing: ${data.playStatus}`);
+
+    // Follow source changes made on the device or in the Bose app
+    const sourceIndex = this.inputMap.findIndex(m => m.type === 'source' && m.source === data.source
+      && (!m.sourceAccount || !data.sourceAccount || m.sourceAccount === data.sourceAccount));
+    if (sourceIndex >= 0 && this.currentInputIndex !== sourceIndex + 1) {
+      this.currentInputIndex = sourceIndex + 1;
+      this.lastActivePresetSlot = 0;
+      this.televisionService.updateCharacteristic(this.platform.Characteristic.ActiveIdentifier, this.currentInputIndex);
+    }
+
+    if (this.announcementListener) {
+      this.announcementListener(data);
+    }
+
+    // Playlist (NAS album): follow the queued next track, or start it when the current one ended
+    if (data.source === 'UPNP' && !this.announcing && this.client.getPlaylistInfo().total > 0
+      && (data.playStatus === 'STOP_STATE' || data.playStatus === 'PLAY_STATE')) {
+      this.advancePlaylist();
+    }
+  }
+
+  private advancePlaylist(): void {
+    if (this.checkingPlaylist) {
+      // Look again afterwards, so a track that starts meanwhile is seen playing
+      this.playlistRecheck = true;
+      return;
+    }
+    this.checkingPlaylist = true;
+    this.client.advancePlaylist().then((started) => {
+      const info = this.client.getPlaylistInfo();
+      if (started) {
+        this.platform.log.info(`${this.accessory.displayName} next track ${info.index + 1}/${info.total}`);
+      }
+      if (info.total === 0) {
+        this.stopPlaylistWatch();
+      }
+    }).catch(() => { /* ignore */ }).finally(() => {
+      this.checkingPlaylist = false;
+      if (this.playlistRecheck) {
+        this.playlistRecheck = false;
+        this.advancePlaylist();
+      }
+    });
+  }
+
+  // Saved play queue: keep following it if the speaker is still playing it after a restart
+  private async resumePlaylist(): Promise<void> {
+    if (this.client.getPlaylistInfo().total === 0) {
+      return;
+    }
+    const resumed = this.currentSource === 'UPNP' && await this.client.resumePlaylist().catch(() => false);
+    if (resumed) {
+      const info = this.client.getPlaylistInfo();
+      this.platform.log.info(`${this.accessory.displayName} resuming play queue at track ${info.index + 1}/${info.total}`);
+      this.startPlaylistWatch();
+    } else {
+      this.client.clearPlaylist();
+    }
+  }
+
+  // Track changes are also polled, so albums keep playing while the WebSocket is down
+  private startPlaylistWatch(): void {
+    this.stopPlaylistWatch();
+    if (this.client.getPlaylistInfo().total > 0) {
+      this.playlistTimer = setInterval(() => {
+        if (!this.announcing) {
+          this.advancePlaylist();
+        }
+      }, SoundTouchAccessory.PLAYLIST_POLL_INTERVAL);
+    }
+  }
+
+  private endPlaylist(): void {
+    if (this.client.getPlaylistInfo().total > 0) {
+      this.platform.log.debug(`${this.accessory.displayName} play queue ended`);
+    }
+    this.stopPlaylistWatch();
+    this.client.clearPlaylist();
+  }
+
+  private stopPlaylistWatch(): void {
+    if (this.playlistTimer) {
+      clearInterval(this.playlistTimer);
+      this.playlistTimer = undefined;
+    }
+  }
+
+  private handleBassUpdate(data: BassUpdate): void {
+    if (this.bassAvailable && this.bassLightbulbService) {
+      this.currentBass = data.actualbass;
+      this.bassLightbulbService.updateCharacteristic(
+        this.platform.Characteristic.RotationSpeed,
+        this.bassToPercent(this.currentBass),
+      );
+      this.bassLightbulbService.updateCharacteristic(
+        this.platform.Characteristic.On,
+        this.currentBass > this.bassMin,
+      );
+      this.platform.log.debug(
+        `${this.accessory.displayName} Bass: ${this.currentBass}`,
+      );
+    }
   }
 
   private updatePowerState(): void {
@@ -1017,15 +2044,15 @@ export class SoundTouchAccessory {
       this.isPoweredOn = true;
       this.lastActivePresetSlot = presetId;
       this.updatePowerState();
-      this.currentInputIndex = presetId;
+      this.currentInputIndex = this.getPresetIdentifier(presetId);
       this.televisionService.updateCharacteristic(
         this.platform.Characteristic.ActiveIdentifier,
-        presetId,
+        this.currentInputIndex,
       );
       this.updatePresetSwitchStates();
     } catch (error) {
       this.platform.log.error(
-        `${this.accessory.displayName} failed to play preset ${presetId}:`, error,
+        `${this.accessory.displayName} failed to play preset ${presetId}: ${describeError(error)}`,
       );
     }
   }
@@ -1033,21 +2060,33 @@ export class SoundTouchAccessory {
   private async refreshGroupState(): Promise<void> {
     try {
       const zone = await this.client.getZone();
-      const wasGrouped = this.isGrouped;
-      this.isGrouped = zone !== null && zone.members.length > 0;
-      if (wasGrouped !== this.isGrouped) {
-        this.groupSwitchService.updateCharacteristic(
-          this.platform.Characteristic.On, this.isGrouped,
-        );
-        this.platform.log.info(
-          `${this.accessory.displayName} group: ${this.isGrouped ? 'ON' : 'OFF'}`,
-        );
-      }
+      this.platform.updateZone(this, { master: zone?.master, members: zone?.members || [] });
     } catch {
       // Ignore errors during group state refresh
     }
   }
 
+  // Called by the platform whenever a zone changed: the switch is on while this speaker is a slave
+  handleZoneChange(): void {
+    if (!this.isZoneMaster()) {
+      this.groupVolume.reset();
+    }
+    this.updateGroupVolume();
+    if (!this.groupSwitchService) {
+      return;
+    }
+    const wasGrouped = this.isGrouped;
+    this.isGrouped = this.platform.zones.getRole(this.macAddress) === 'slave';
+    if (wasGrouped !== this.isGrouped) {
+      this.groupSwitchService.updateCharacteristic(
+        this.platform.Characteristic.On, this.isGrouped,
+      );
+      this.platform.log.info(
+        `${this.accessory.displayName} group: ${this.isGrouped ? 'ON' : 'OFF'}`,
+      );
+    }
+  }
+
   private async refreshState(): Promise<void> {
     try {
       const [volume, nowPlaying] = await Promise.all([
@@ -1058,14 +2097,40 @@ export class SoundTouchAccessory {
       this.currentVolume = volume.actualvolume;
       this.currentMute = volume.muteenabled;
       this.isPoweredOn = nowPlaying.source !== 'STANDBY';
+      this.currentPlayStatus = nowPlaying.playStatus || '';
+      this.currentSource = nowPlaying.source;
 
       this.updatePowerState();
       this.updateVolumeCharacteristics();
+      this.updateSensorStates();
     } catch (error) {
       this.platform.log.debug('Failed to refresh state:', error);
     }
   }
 
+  // Log a failed device command and map the error to a HomeKit status
+  private commandFailed(action: string, error: unknown): Error {
+    this.platform.log.error(`${this.accessory.displayName}: failed to ${action}: ${describeError(error)}`);
+
+    let status = HAPStatus.SERVICE_COMMUNICATION_FAILURE;
+    if (error instanceof SoundTouchTimeoutError) {
+      status = HAPStatus.OPERATION_TIMED_OUT;
+    } else if (error instanceof SoundTouchNetworkError) {
+      status = HAPStatus.SERVICE_COMMUNICATION_FAILURE;
+    } else if (error instanceof SoundTouchDeviceError) {
+      if (error.isSourceUnavailable) {
+        status = HAPStatus.RESOURCE_DOES_NOT_EXIST;
+      } else if (error.isInvalidRequest) {
+        status = HAPStatus.INVALID_VALUE_IN_REQUEST;
+      } else {
+        status = HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE;
+      }
+    } else if (error instanceof DlnaSoapError) {
+      status = HAPStatus.RESOURCE_DOES_NOT_EXIST;
+    }
+    return new this.platform.api.hap.HapStatusError(status);
+  }
+
   // Characteristic handlers
 
   private async getPowerState(): Promise<CharacteristicValue> {
@@ -1096,7 +2161,9 @@ export class SoundTouchAccessory {
                   `${this.accessory.displayName} auto-resumed: ${preset.name}`,
                 );
               } catch (err) {
-                this.platform.log.error('Auto-resume failed:', err);
+                this.platform.log.error(
+                  `${this.accessory.displayName}: auto-resume failed: ${describeError(err)}`,
+                );
               }
               this.updatePresetSwitchStates();
             }, 2000);
@@ -1105,14 +2172,12 @@ export class SoundTouchAccessory {
       } else if (!shouldBeOn && this.isPoweredOn) {
         await this.client.powerOff();
         this.isPoweredOn = false;
+        this.endPlaylist();
         this.platform.log.info(`${this.accessory.displayName} Power OFF`);
         this.updatePresetSwitchStates();
       }
     } catch (error) {
-      this.platform.log.error('Failed to set power state:', error);
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
+      throw this.commandFailed('set power state', error);
     }
   }
 
@@ -1140,6 +2205,16 @@ export class SoundTouchAccessory {
     return this.deviceInfo;
   }
 
+  // Answering right now: WebSocket connected or polling going through (getDeviceInfo() is only read at startup)
+  isReachable(): boolean {
+    return this.macAddress !== undefined && (this.webSocket.isConnected || this.poller?.isAnswering === true);
+  }
+
+  // Current song of a radio stream, if the station sends ICY metadata
+  getStreamTitle(): StreamTitle | undefined {
+    return this.streamTitle;
+  }
+
   getHost(): string {
     return this.deviceConfig.host;
   }
@@ -1156,14 +2231,158 @@ export class SoundTouchAccessory {
     return this.deviceConfig.name || this.accessory.displayName;
   }
 
+  getVolume(): number {
+    return this.currentVolume;
+  }
+
   isPlaying(): boolean {
     return this.isPoweredOn && this.currentPlayStatus === 'PLAY_STATE';
   }
 
+  // Play a clip, wait until it ends (or maxDuration), then return to the previous state
+  async announce(url: string, title: string, volume?: number, maxDuration = 60_000): Promise<void> {
+    if (this.announcing) {
+      this.platform.log.warn(`${this.accessory.displayName}: announcement already playing, skipping "${title}"`);
+      return;
+    }
+    this.announcing = true;
+
+    try {
+      const snapshot = await this.takeSnapshot();
+      try {
+        if (snapshot.nowPlaying.source === 'STANDBY') {
+          await this.wakeUp();
+        }
+        if (snapshot.muted) {
+          await this.client.setMute(false);
+        }
+        if (volume !== undefined) {
+          await this.client.setVolume(volume);
+        }
+        const ended = this.waitForAnnouncementEnd(maxDuration);
+        await this.client.playUrl(await this.getStreamUrl(url), title);
+        this.platform.log.info(`${this.accessory.displayName} announcement: ${title}`);
+        await ended;
+      } finally {
+        this.announcementListener = undefined;
+        await this.restoreSnapshot(snapshot);
+      }
+    } finally {
+      this.announcing = false;
+    }
+  }
+
+  private async takeSnapshot(): Promise<PlaybackSnapshot> {
+    const nowPlaying = await this.client.getNowPlaying();
+    const volume = await this.client.getVolume();
+    const zone = await this.client.getZone().catch(() => null);
+    return {
+      nowPlaying,
+      volume: volume.actualvolume,
+      muted: volume.muteenabled,
+      zone: zone && zone.members.length > 0 ? zone : null,
+      presetSlot: this.lastActivePresetSlot,
+    };
+  }
+
+  // Resolves when the clip went from playing to stopped, or after maxDuration
+  private waitForAnnouncementEnd(maxDuration: number): Promise<void> {
+    return new Promise((resolve) => {
+      let started = false;
+      const timer = setTimeout(() => {
+        this.platform.log.debug(`${this.accessory.displayName} announcement did not end within ${maxDuration / 1000}s`);
+        this.announcementListener = undefined;
+        resolve();
+      }, maxDuration);
+
+      this.announcementListener = (data) => {
+        if (data.source === 'UPNP' && (data.playStatus === 'PLAY_STATE' || data.playStatus === 'BUFFERING_STATE')) {
+          started = true;
+        } else if (started && (data.playStatus === 'STOP_STATE' || data.source !== 'UPNP')) {
+          clearTimeout(timer);
+          this.announcementListener = undefined;
+          resolve();
+        }
+      };
+    });
+  }
+
+  private async restoreSnapshot(snapshot: PlaybackSnapshot): Promise<void> {
+    const { nowPlaying } = snapshot;
+    try {
+      if (nowPlaying.source === 'STANDBY') {
+        await this.client.powerOff();
+        this.isPoweredOn = false;
+        this.updatePowerState();
+      } else {
+        await this.restoreContent(snapshot);
+        if (nowPlaying.playStatus === 'PAUSE_STATE' || nowPlaying.playStatus === 'STOP_STATE') {
+          await this.client.pause();
+        }
+        await this.restoreZone(snapshot.zone);
+      }
+      await this.client.setVolume(snapshot.volume);
+      if (snapshot.muted) {
+        await this.client.setMute(true);
+      }
+    } catch (error) {
+      this.platform.log.error(`${this.accessory.displayName}: failed to restore state after announcement: ${describeError(error)}`);
+    }
+  }
+
+  private async restoreContent(snapshot: PlaybackSnapshot): Promise<void> {
+    const { nowPlaying } = snapshot;
+    const item = nowPlaying.contentItem;
+    const preset = snapshot.presetSlot > 0
+      ? this.deviceConfig.presets?.find(p => p.slot === snapshot.presetSlot)
+      : undefined;
+
+    if (nowPlaying.source === 'UPNP' && item?.location && /^https?:\/\//i.test(item.location)) {
+      // DLNA stream or NAS track: play the same URL again, the NAS playlist position is kept
+      await this.client.playUrl(item.location, nowPlaying.track || nowPlaying.stationName || item.name || '');
+    } else if (preset && preset.type !== 'nas') {
+      await this.playConfiguredPreset(preset);
+    } else if (item) {
+      await this.client.selectContentItem(item);
+    } else {
+      await this.client.selectSource(nowPlaying.source, nowPlaying.sourceAccount);
+    }
+    this.lastActivePresetSlot = snapshot.presetSlot;
+  }
+
+  private async restoreZone(zone: PlaybackSnapshot['zone']): Promise<void> {
+    const myMac = this.deviceInfo?.macAddress;
+    if (!zone || !myMac) {
+      return;
+    }
+    const current = await this.client.getZone().catch(() => null);
+    const currentMembers = new Set((current?.members || []).map(m => m.macaddress));
+    const missing = zone.members.filter(m => m.macaddress !== zone.master && !currentMembers.has(m.macaddress));
+
+    if (zone.master === myMac) {
+      if (missing.length > 0) {
+        await this.client.addZoneSlave(myMac, missing);
+      }
+    } else if (current?.master !== zone.master) {
+      // Playing the clip took this speaker out of its group - join the master again
+      const master = this.platform.getAllAccessories().find(a => a.getDeviceInfo()?.macAddress === zone.master);
+      await master?.getClient().addZoneSlave(zone.master, [{ ipaddress: this.deviceConfig.host, macaddress: myMac }]);
+    }
+  }
+
   destroy(): void {
     if (this.initRetryTimer) {
       clearTimeout(this.initRetryTimer);
     }
+    this.clearSleepTimer();
+    this.stopAlarmRamp();
+    this.stopStreamMonitor();
+    this.stopPlaylistWatch();
+    for (const id of this.alarmIds) {
+      this.platform.alarmScheduler.remove(id);
+    }
     this.webSocket.disconnect();
+    this.stopPollingFallback();
+    this.client.destroy();
   }
 }
@@ -1,5 +1,18 @@
 import http from 'http';
 import { parseStringPromise, Builder } from 'xml2js';
+import {
+  SoundTouchError, SoundTouchTimeoutError, SoundTouchNetworkError, DlnaSoapError,
+  parseDeviceError, parseSoapFault, toNetworkError,
+} from './soundtouchErrors';
+import { CommandQueue } from './commandQueue';
+import { PlayQueue, QueueTrack, RepeatMode, TrackOrder, orderTracks } from './playQueue';
+import {
+  audioUrl, browseContentDirectory, discoverMediaServers, getMediaServer, miniDlnaControlUrl,
+} from './contentDirectory';
+
+const NAS_PAGE_SIZE = 200;    // Browse results per request
+const NAS_MAX_DEPTH = 5;      // Folder levels below the selected one (genre/artist/album/disc)
+const NAS_MAX_TRACKS = 1000;  // Default limit for one preset
 
 export interface DeviceInfo {
   deviceID: string;
@@ -69,6 +82,7 @@ export interface Source {
   status: string;
   isLocal: boolean;
   multiroomAllowed: boolean;
+  displayName?: string;      // e.g. the account's user name for streaming services
 }
 
 export interface ZoneMember {
@@ -84,6 +98,23 @@ export interface Zone {
   senderMACAddress?: string;
 }
 
+export type StereoRole = 'LEFT' | 'RIGHT';
+
+export interface GroupRole {
+  deviceId: string;          // MAC address
+  role: StereoRole;
+  ipAddress: string;
+}
+
+// Stereo pair of two SoundTouch 10 (/getGroup). The master is the left speaker.
+export interface StereoGroup {
+  id?: string;               // Assigned by the speaker
+  name: string;
+  masterDeviceId: string;
+  roles: GroupRole[];
+  status?: string;           // e.g. GROUP_OK
+}
+
 export type KeyValue =
   | 'PLAY' | 'PAUSE' | 'PLAY_PAUSE' | 'STOP'
   | 'PREV_TRACK' | 'NEXT_TRACK'
@@ -95,19 +126,54 @@ export type KeyValue =
   | 'REPEAT_OFF' | 'REPEAT_ONE' | 'REPEAT_ALL'
   | 'ADD_FAVORITE' | 'REMOVE_FAVORITE';
 
+export interface SoundTouchClientOptions {
+  retries?: number;          // Retries for idempotent GET requests (default: 2)
+  retryDelay?: number;       // Initial retry delay in ms, doubled per attempt (default: 500)
+  keepAlive?: boolean;       // Reuse HTTP connections (default: true)
+  playQueue?: PlayQueue;     // Queue for DLNA playback, e.g. one with a state file (default: in memory)
+}
+
+export interface NasBrowseOptions {
+  order?: TrackOrder;        // Default: album order (track number)
+  limit?: number;            // Maximum number of tracks (default: 1000)
+}
+
 export class SoundTouchClient {
   private host: string;
   private readonly port: number;
   private readonly timeout: number;
-
-  constructor(host: string, port = 8090, timeout = 5000) {
+  private readonly retries: number;
+  private readonly retryDelay: number;
+  private readonly agent: http.Agent;
+  private readonly queue = new CommandQueue();
+  private readonly playQueue: PlayQueue;
+  private readonly contentDirectories = new Map<string, string>(); // Server ID -> ContentDirectory control URL
+  private nextTrackQueued = false;
+  private transportState = ''; // Last state advancePlaylist saw
+  private stoppedByUser = false; // Stop or pause requested: the next STOPPED is no track end
+  private gapless = true; // Cleared if the renderer rejects SetNextAVTransportURI
+
+  constructor(host: string, port = 8090, timeout = 5000, options: SoundTouchClientOptions = {}) {
     this.host = host;
     this.port = port;
     this.timeout = timeout;
+    this.retries = options.retries ?? 2;
+    this.retryDelay = options.retryDelay ?? 500;
+    this.playQueue = options.playQueue ?? new PlayQueue();
+    // One socket per port: the queue sends one command at a time anyway,
+    // and older boxes struggle with many parallel connections
+    this.agent = new http.Agent({ keepAlive: options.keepAlive ?? true, maxSockets: 1 });
   }
 
   updateHost(host: string): void {
     this.host = host;
+    // Sockets to the old address are useless now
+    this.agent.destroy();
+  }
+
+  destroy(): void {
+    this.queue.clear(new SoundTouchError('Client destroyed', this.host));
+    this.agent.destroy();
   }
 
   private xmlEscape(str: string): string {
@@ -118,38 +184,24 @@ export class SoundTouchClient {
       .replace(/"/g, '&quot;');
   }
 
-  private async request(method: 'GET' | 'POST', path: string, body?: string): Promise<string> {
+  private rawRequest(
+    options: http.RequestOptions, body: string | undefined, what = 'Request',
+  ): Promise<{ statusCode: number; data: string }> {
+    const host = options.hostname || this.host;
     return new Promise((resolve, reject) => {
-      const options: http.RequestOptions = {
-        hostname: this.host,
-        port: this.port,
-        path: path,
-        method: method,
-        timeout: this.timeout,
-        headers: body ? {
-          'Content-Type': 'application/xml',
-          'Content-Length': Buffer.byteLength(body),
-        } : {},
-      };
-
-      const req = http.request(options, (res) => {
+      const req = http.request({ timeout: this.timeout, ...options }, (res) => {
         let data = '';
         res.on('data', (chunk) => {
           data += chunk;
         });
         res.on('end', () => {
-          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-            resolve(data);
-          } else {
-            reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-          }
+          resolve({ statusCode: res.statusCode || 0, data });
         });
       });
 
-      req.on('error', reject);
+      req.on('error', (error) => reject(toNetworkError(host, error, this.timeout)));
       req.on('timeout', () => {
-        req.destroy();
-        reject(new Error('Request timeout'));
+        req.destroy(new SoundTouchTimeoutError(host, this.timeout, what));
       });
 
       if (body) {
@@ -159,13 +211,47 @@ export class SoundTouchClient {
     });
   }
 
+  private async send(method: 'GET' | 'POST', path: string, body?: string): Promise<string> {
+    const { statusCode, data } = await this.rawRequest({
+      hostname: this.host,
+      port: this.port,
+      path: path,
+      method: method,
+      agent: this.agent,
+      headers: body ? {
+        'Content-Type': 'application/xml',
+        'Content-Length': Buffer.byteLength(body),
+      } : {},
+    }, body);
+    if (statusCode >= 200 && statusCode < 300) {
+      return data;
+    }
+    throw await parseDeviceError(this.host, statusCode, data);
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: string, coalesceKey?: string): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.queue.enqueue(() => this.send(method, path, body), coalesceKey);
+      } catch (error) {
+        // Only GETs are safe to repeat, and only when the device never answered
+        const transient = error instanceof SoundTouchTimeoutError || error instanceof SoundTouchNetworkError;
+        if (method !== 'GET' || !transient || attempt >= this.retries) {
+          throw error;
+        }
+        // Wait outside the queue, so other commands are not held up by the backoff
+        await new Promise(r => setTimeout(r, this.retryDelay * 2 ** attempt));
+      }
+    }
+  }
+
   private async get(path: string): Promise<unknown> {
     const xml = await this.request('GET', path);
     return parseStringPromise(xml, { explicitArray: false, ignoreAttrs: false });
   }
 
-  private async post(path: string, body: string): Promise<unknown> {
-    const xml = await this.request('POST', path, body);
+  private async post(path: string, body: string, coalesceKey?: string): Promise<unknown> {
+    const xml = await this.request('POST', path, body, coalesceKey);
     return parseStringPromise(xml, { explicitArray: false, ignoreAttrs: false });
   }
 
@@ -280,7 +366,7 @@ export class SoundTouchClient {
 
   async setVolume(level: number): Promise<void> {
     const xml = `<volume>${Math.max(0, Math.min(100, Math.round(level)))}</volume>`;
-    await this.post('/volume', xml);
+    await this.post('/volume', xml, 'volume');
   }
 
   async getBass(): Promise<Bass> {
@@ -298,7 +384,7 @@ export class SoundTouchClient {
 
   async setBass(level: number): Promise<void> {
     const xml = `<bass>${Math.round(level)}</bass>`;
-    await this.post('/bass', xml);
+    await this.post('/bass', xml, 'bass');
   }
 
   async getBassCapabilities(): Promise<BassCapabilities> {
@@ -321,8 +407,11 @@ export class SoundTouchClient {
   async pressKey(key: KeyValue): Promise<void> {
     const pressXml = `<key state="press" sender="Gabbo">${key}</key>`;
     const releaseXml = `<key state="release" sender="Gabbo">${key}</key>`;
-    await this.post('/key', pressXml);
-    await this.post('/key', releaseXml);
+    // Press and release as one queue entry so no other command gets in between
+    await this.queue.enqueue(async () => {
+      await this.send('POST', '/key', pressXml);
+      await this.send('POST', '/key', releaseXml);
+    });
   }
 
   async play(): Promise<void> {
@@ -330,17 +419,25 @@ export class SoundTouchClient {
   }
 
   async pause(): Promise<void> {
+    this.markStoppedByUser();
     await this.pressKey('PAUSE');
   }
 
   async playPause(): Promise<void> {
+    this.markStoppedByUser();
     await this.pressKey('PLAY_PAUSE');
   }
 
   async stop(): Promise<void> {
+    this.markStoppedByUser();
     await this.pressKey('STOP');
   }
 
+  // Stop or pause on the speaker, its remote or via the API: keeps the play queue from moving on
+  markStoppedByUser(): void {
+    this.stoppedByUser = true;
+  }
+
   async nextTrack(): Promise<void> {
     await this.pressKey('NEXT_TRACK');
   }
@@ -435,8 +532,10 @@ export class SoundTouchClient {
     const result = await this.get('/sources') as {
       sources: {
         sourceItem?: Array<{
+          _?: string;
           $: { source: string; sourceAccount?: string; status: string; isLocal: string; multiroomallowed: string };
         }> | {
+          _?: string;
           $: { source: string; sourceAccount?: string; status: string; isLocal: string; multiroomallowed: string };
         };
       };
@@ -456,6 +555,7 @@ export class SoundTouchClient {
       status: s.$.status,
       isLocal: s.$.isLocal === 'true',
       multiroomAllowed: s.$.multiroomallowed === 'true',
+      displayName: s._?.trim() || undefined,
     }));
   }
 
@@ -486,69 +586,97 @@ export class SoundTouchClient {
   async playUrl(url: string, title = ''): Promise<void> {
     // Play HTTP stream via DLNA SetAVTransportURI on port 8091
     // This works after the Bose cloud shutdown (LOCAL_INTERNET_RADIO removed)
-    // Bose SoundTouch doesn't support HTTPS streams - convert to HTTP
-    const httpUrl = url.trim().replace(/^https:\/\//i, 'http://');
-    const xmlUrl = this.xmlEscape(httpUrl);
-    const xmlTitle = this.xmlEscape(title);
-
-    // DIDL-Lite metadata so the display shows the track/station name
-    let metadata = '';
-    if (title) {
-      const didl = '&lt;DIDL-Lite xmlns=&quot;urn:schemas-upnp-org:metadata-1-0/DIDL-Lite/&quot;'
-        + ' xmlns:dc=&quot;http://purl.org/dc/elements/1.1/&quot;'
-        + ' xmlns:upnp=&quot;urn:schemas-upnp-org:metadata-1-0/upnp/&quot;&gt;'
-        + '&lt;item id=&quot;0&quot; parentID=&quot;0&quot; restricted=&quot;1&quot;&gt;'
-        + `&lt;dc:title&gt;${xmlTitle}&lt;/dc:title&gt;`
-        + '&lt;upnp:class&gt;object.item.audioItem.audioBroadcast&lt;/upnp:class&gt;'
-        + `&lt;res&gt;${xmlUrl}&lt;/res&gt;`
-        + '&lt;/item&gt;&lt;/DIDL-Lite&gt;';
-      metadata = didl;
+    const httpUrl = this.toTransportUrl(url);
+    await this.avTransport('SetAVTransportURI',
+      '<InstanceID>0</InstanceID>' +
+      `<CurrentURI>${this.xmlEscape(httpUrl)}</CurrentURI>` +
+      `<CurrentURIMetaData>${this.didlMetadata(httpUrl, title)}</CurrentURIMetaData>`);
+  }
+
+  // Track the renderer starts by itself when the current one ends (gapless playback)
+  async setNextUrl(url: string, title = ''): Promise<void> {
+    const httpUrl = this.toTransportUrl(url);
+    await this.avTransport('SetNextAVTransportURI',
+      '<InstanceID>0</InstanceID>' +
+      `<NextURI>${this.xmlEscape(httpUrl)}</NextURI>` +
+      `<NextURIMetaData>${this.didlMetadata(httpUrl, title)}</NextURIMetaData>`);
+  }
+
+  // PLAYING, PAUSED_PLAYBACK, STOPPED, TRANSITIONING or NO_MEDIA_PRESENT
+  async getTransportState(): Promise<string> {
+    const result = await this.avTransportResult('GetTransportInfo');
+    return result.CurrentTransportState || '';
+  }
+
+  // URL of the current track and the position in it (seconds)
+  async getPositionInfo(): Promise<{ trackUri: string; duration: number; position: number }> {
+    const result = await this.avTransportResult('GetPositionInfo');
+    const seconds = (time = '') => time.split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+    return {
+      trackUri: result.TrackURI || '',
+      duration: seconds(result.TrackDuration),
+      position: seconds(result.RelTime),
+    };
+  }
+
+  // Bose SoundTouch doesn't support HTTPS streams - convert to HTTP
+  private toTransportUrl(url: string): string {
+    return url.trim().replace(/^https:\/\//i, 'http://');
+  }
+
+  // DIDL-Lite metadata so the display shows the track/station name (escaped for the SOAP body)
+  private didlMetadata(url: string, title: string): string {
+    if (!title) {
+      return '';
     }
+    return '&lt;DIDL-Lite xmlns=&quot;urn:schemas-upnp-org:metadata-1-0/DIDL-Lite/&quot;'
+      + ' xmlns:dc=&quot;http://purl.org/dc/elements/1.1/&quot;'
+      + ' xmlns:upnp=&quot;urn:schemas-upnp-org:metadata-1-0/upnp/&quot;&gt;'
+      + '&lt;item id=&quot;0&quot; parentID=&quot;0&quot; restricted=&quot;1&quot;&gt;'
+      + `&lt;dc:title&gt;${this.xmlEscape(title)}&lt;/dc:title&gt;`
+      + '&lt;upnp:class&gt;object.item.audioItem.audioBroadcast&lt;/upnp:class&gt;'
+      + `&lt;res&gt;${this.xmlEscape(url)}&lt;/res&gt;`
+      + '&lt;/item&gt;&lt;/DIDL-Lite&gt;';
+  }
+
+  // Output arguments of an action without input arguments
+  private async avTransportResult(action: string): Promise<Record<string, string>> {
+    const data = await this.avTransport(action, '<InstanceID>0</InstanceID>');
+    const doc = await parseStringPromise(data, {
+      explicitArray: false, ignoreAttrs: true, tagNameProcessors: [(name: string) => name.replace(/^.*:/, '')],
+    });
+    const result = doc?.Envelope?.Body?.[`${action}Response`] || {};
+    return Object.fromEntries(Object.entries(result).map(([key, value]) => [key, typeof value === 'string' ? value : '']));
+  }
 
+  // Call an action on the DLNA renderer (port 8091), queued with the other device commands
+  private async avTransport(action: string, args: string): Promise<string> {
     const soap = '<?xml version="1.0" encoding="utf-8"?>' +
       '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" ' +
       's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/">' +
       '<s:Body>' +
-      '<u:SetAVTransportURI xmlns:u="urn:schemas-upnp-org:service:AVTransport:1">' +
-      '<InstanceID>0</InstanceID>' +
-      `<CurrentURI>${xmlUrl}</CurrentURI>` +
-      `<CurrentURIMetaData>${metadata}</CurrentURIMetaData>` +
-      '</u:SetAVTransportURI>' +
+      `<u:${action} xmlns:u="urn:schemas-upnp-org:service:AVTransport:1">` +
+      args +
+      `</u:${action}>` +
       '</s:Body></s:Envelope>';
 
-    return new Promise((resolve, reject) => {
-      const options: http.RequestOptions = {
+    return this.queue.enqueue(async () => {
+      const { statusCode, data } = await this.rawRequest({
         hostname: this.host,
         port: 8091,
         path: '/AVTransport/Control',
         method: 'POST',
-        timeout: this.timeout,
+        agent: this.agent,
         headers: {
           'Content-Type': 'text/xml; charset=utf-8',
-          'SOAPAction': '"urn:schemas-upnp-org:service:AVTransport:1#SetAVTransportURI"',
+          'SOAPAction': `"urn:schemas-upnp-org:service:AVTransport:1#${action}"`,
           'Content-Length': Buffer.byteLength(soap),
         },
-      };
-
-      const req = http.request(options, (res) => {
-        let data = '';
-        res.on('data', (chunk) => data += chunk);
-        res.on('end', () => {
-          if (res.statusCode && res.statusCode >= 400) {
-            reject(new Error(`DLNA error ${res.statusCode}: ${data}`));
-          } else {
-            resolve();
-          }
-        });
-      });
-
-      req.on('error', reject);
-      req.on('timeout', () => {
-        req.destroy();
-        reject(new Error('DLNA timeout'));
-      });
-      req.write(soap);
-      req.end();
+      }, soap, 'DLNA');
+      if (statusCode >= 400) {
+        throw await parseSoapFault(this.host, statusCode, data);
+      }
+      return data;
     });
   }
 
@@ -604,146 +732,302 @@ export class SoundTouchClient {
     await this.post('/select', xml);
   }
 
-  private playlist: Array<{ url: string; title: string }> = [];
-  private playlistIndex = 0;
-
   async playStoredMusic(
     location: string, sourceAccount: string,
-    nasServerIp?: string, albumName?: string,
+    nasServerIp?: string, albumName?: string, options: NasBrowseOptions = {},
   ): Promise<void> {
-    if (!nasServerIp) {
-      const serverInfo = await this.getMediaServerIp(sourceAccount);
-      nasServerIp = serverInfo;
+    const serverId = sourceAccount.replace(/\/0$/, '');
+    const controlUrl = await this.getContentDirectoryUrl(serverId, nasServerIp);
+
+    let tracks: QueueTrack[];
+    try {
+      tracks = await this.resolveNasObjectId(controlUrl, location, options);
+    } catch (error) {
+      // Server may have moved (new IP or port, e.g. Plex) - look it up again next time
+      this.contentDirectories.delete(serverId);
+      throw error;
     }
-    if (!nasServerIp) {
-      throw new Error('Cannot resolve NAS server IP');
+    if (tracks.length === 0) {
+      throw new SoundTouchError(`No tracks found for ObjectID: ${location}`, new URL(controlUrl).hostname);
     }
 
-    const tracks = await this.resolveNasObjectId(nasServerIp, location);
-    if (!tracks || tracks.length === 0) {
-      throw new Error(`No tracks found for ObjectID: ${location}`);
-    }
+    await this.playTracks(tracks, albumName);
+  }
 
-    this.playlist = tracks;
-    this.playlistIndex = 0;
-    const first = this.playlist[0];
+  // Play tracks one after another (playNextTrack is called when a track ends)
+  async playTracks(tracks: QueueTrack[], albumName?: string, startIndex = 0): Promise<void> {
+    this.playQueue.set(tracks, startIndex);
+    this.transportState = '';
+    this.stoppedByUser = false;
+    const first = this.playQueue.current()!;
     await this.playUrl(first.url, first.title || albumName || '');
+    await this.queueNextTrack();
   }
 
   async playNextTrack(): Promise<boolean> {
-    if (this.playlist.length === 0) {
+    if (this.playQueue.length === 0) {
       return false;
     }
-    this.playlistIndex++;
-    if (this.playlistIndex >= this.playlist.length) {
-      this.playlist = [];
-      this.playlistIndex = 0;
+    const track = this.playQueue.next(true);
+    if (!track) {
+      this.clearPlaylist();
       return false;
     }
-    const track = this.playlist[this.playlistIndex];
-    await this.playUrl(track.url, track.title);
+    await this.playQueueTrack(track);
+    return true;
+  }
+
+  // Next/previous key: false if there is no track in that direction
+  async skipTrack(direction: 1 | -1): Promise<boolean> {
+    if (this.playQueue.length === 0) {
+      return false;
+    }
+    const track = direction > 0 ? this.playQueue.next() : this.playQueue.previous();
+    if (!track) {
+      return false;
+    }
+    await this.playQueueTrack(track);
+    return true;
+  }
+
+  // index: position in the track list as passed to playTracks
+  async playTrackAt(index: number): Promise<boolean> {
+    const track = this.playQueue.jumpTo(index);
+    if (!track) {
+      return false;
+    }
+    await this.playQueueTrack(track);
+    return true;
+  }
+
+  async setQueueShuffle(enabled: boolean): Promise<void> {
+    this.playQueue.setShuffle(enabled);
+    await this.requeueNextTrack();
+  }
+
+  async setQueueRepeat(mode: RepeatMode): Promise<void> {
+    this.playQueue.setRepeat(mode);
+    await this.requeueNextTrack();
+  }
+
+  getPlayQueue(): PlayQueue {
+    return this.playQueue;
+  }
+
+  // Bring the playlist in line with the renderer: follow a queued track it started by
+  // itself, or start the next track if it stopped. Resolves true if a new track began.
+  async advancePlaylist(): Promise<boolean> {
+    if (this.playQueue.length === 0) {
+      return false;
+    }
+    const { trackUri } = await this.getPositionInfo();
+    const current = this.playQueue.current();
+    const next = this.playQueue.peekNext();
+
+    if (next && next !== current && trackUri === this.toTransportUrl(next.url)) {
+      this.playQueue.next(true);
+      this.nextTrackQueued = false;
+      await this.queueNextTrack();
+      return true;
+    }
+
+    const state = await this.getTransportState();
+    const previous = this.transportState;
+    this.transportState = state;
+    if (state === 'PLAYING') {
+      this.stoppedByUser = false;
+    }
+    if (state === 'STOPPED' || state === 'NO_MEDIA_PRESENT') {
+      // Only a track that played to its end moves the queue on
+      return previous === 'PLAYING' && !this.stoppedByUser ? this.playNextTrack() : false;
+    }
+    // Queue got lost, e.g. the track was restarted after an announcement
+    if (!this.nextTrackQueued && current && trackUri === this.toTransportUrl(current.url)) {
+      await this.queueNextTrack();
+    }
+    return false;
+  }
+
+  // After a restart: true if the renderer is still playing a track of the saved queue
+  async resumePlaylist(): Promise<boolean> {
+    const current = this.playQueue.current();
+    if (!current) {
+      return false;
+    }
+    const { trackUri } = await this.getPositionInfo();
+    const next = this.playQueue.peekNext();
+    if (next && next !== current && trackUri === this.toTransportUrl(next.url)) {
+      this.playQueue.next(true);
+    } else if (trackUri !== this.toTransportUrl(current.url)) {
+      this.clearPlaylist();
+      return false;
+    }
+    await this.queueNextTrack();
     return true;
   }
 
+  private async playQueueTrack(track: QueueTrack): Promise<void> {
+    this.transportState = ''; // The stop while switching tracks is no track end
+    await this.playUrl(track.url, track.title);
+    await this.queueNextTrack();
+  }
+
+  // Shuffle or repeat changed while playing: the renderer has the wrong next track
+  private async requeueNextTrack(): Promise<void> {
+    if (this.playQueue.length === 0) {
+      return;
+    }
+    const wasQueued = this.nextTrackQueued;
+    await this.queueNextTrack();
+    // Nothing to queue any more (repeat off on the last track, repeat one): take the queued track back
+    if (wasQueued && !this.nextTrackQueued && this.gapless) {
+      await this.avTransport('SetNextAVTransportURI',
+        '<InstanceID>0</InstanceID><NextURI></NextURI><NextURIMetaData></NextURIMetaData>').catch(() => undefined);
+    }
+  }
+
+  private async queueNextTrack(): Promise<void> {
+    const next = this.playQueue.peekNext();
+    this.nextTrackQueued = false;
+    // Repeating a single track is left to advancePlaylist: the renderer cannot tell us it started over
+    if (!next || next === this.playQueue.current() || !this.gapless) {
+      return;
+    }
+    try {
+      await this.setNextUrl(next.url, next.title);
+      this.nextTrackQueued = true;
+    } catch (error) {
+      // Action not supported: the next track is started when the current one stops
+      if (error instanceof DlnaSoapError && (error.upnpErrorCode === 401 || error.upnpErrorCode === 602)) {
+        this.gapless = false;
+      }
+    }
+  }
+
   getPlaylistInfo(): { index: number; total: number } {
-    return { index: this.playlistIndex, total: this.playlist.length };
+    return { index: this.playQueue.index, total: this.playQueue.length };
   }
 
   clearPlaylist(): void {
-    this.playlist = [];
-    this.playlistIndex = 0;
+    this.playQueue.clear();
+    this.nextTrackQueued = false;
+    this.transportState = '';
   }
 
-  private async getMediaServerIp(sourceAccount: string): Promise<string | undefined> {
+  // Media servers the speaker knows (it finds them via SSDP itself)
+  async listMediaServers(): Promise<Array<{ id: string; name: string; ip: string; location?: string }>> {
     const result = await this.get('/listMediaServers') as {
       ListMediaServersResponse?: {
-        media_server?: { $: { id: string; ip: string } }
-          | Array<{ $: { id: string; ip: string } }>;
+        media_server?: { $: Record<string, string> } | Array<{ $: Record<string, string> }>;
       };
     };
-    const response = result.ListMediaServersResponse;
-    if (!response?.media_server) {
-      return undefined;
+    const servers = result.ListMediaServersResponse?.media_server;
+    if (!servers) {
+      return [];
     }
-    const servers = Array.isArray(response.media_server)
-      ? response.media_server : [response.media_server];
-    // Match by server ID (sourceAccount without "/0")
-    const serverId = sourceAccount.replace(/\/0$/, '');
-    const server = servers.find(s => s.$.id === serverId)
-      || servers[0];
-    return server?.$.ip;
+    return (Array.isArray(servers) ? servers : [servers]).map(s => ({
+      id: s.$.id,
+      name: s.$.friendly_name || s.$.id,
+      ip: s.$.ip,
+      location: s.$.location || undefined,
+    }));
   }
 
-  private async resolveNasObjectId(
-    serverIp: string, objectId: string,
-  ): Promise<Array<{ url: string; title: string }>> {
-    // Browse the DLNA server to get ALL track URLs + titles
-    const soapBody = '<?xml version="1.0"?>' +
-      '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" ' +
-      's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/">' +
-      '<s:Body>' +
-      '<u:Browse xmlns:u="urn:schemas-upnp-org:service:ContentDirectory:1">' +
-      `<ObjectID>${objectId}</ObjectID>` +
-      '<BrowseFlag>BrowseDirectChildren</BrowseFlag>' +
-      '<Filter>*</Filter><StartingIndex>0</StartingIndex>' +
-      '<RequestedCount>500</RequestedCount>' +
-      '<SortCriteria></SortCriteria>' +
-      '</u:Browse></s:Body></s:Envelope>';
+  // ContentDirectory control URL of a media server: from its device description (as listed by
+  // the speaker or found via SSDP), MiniDLNA's fixed URL as a last resort
+  private async getContentDirectoryUrl(serverId: string, serverIp?: string): Promise<string> {
+    const cached = this.contentDirectories.get(serverId);
+    if (cached) {
+      return cached;
+    }
 
-    return new Promise((resolve, reject) => {
-      const options: http.RequestOptions = {
-        hostname: serverIp,
-        port: 8200,
-        path: '/ctl/ContentDir',
-        method: 'POST',
-        timeout: this.timeout,
-        headers: {
-          'Content-Type': 'text/xml; charset="utf-8"',
-          'SOAPAction':
-            '"urn:schemas-upnp-org:service:ContentDirectory:1#Browse"',
-          'Content-Length': Buffer.byteLength(soapBody),
-        },
-      };
+    const servers = await this.listMediaServers().catch(() => []);
+    const listed = servers.find(s => s.id === serverId);
+    const ip = serverIp || listed?.ip;
+    let controlUrl = listed?.location
+      ? (await getMediaServer(listed.location).catch(() => undefined))?.controlUrl
+      : undefined;
+    if (!controlUrl) {
+      const discovered = await discoverMediaServers();
+      controlUrl = (discovered.find(s => s.id === serverId) || discovered.find(s => s.ip === ip))?.controlUrl;
+    }
+    if (!controlUrl) {
+      // Match by server ID, otherwise the first server the speaker knows (as before SSDP)
+      const fallbackIp = ip || servers[0]?.ip;
+      if (!fallbackIp) {
+        throw new SoundTouchError(`Cannot find NAS server ${serverId}`, this.host);
+      }
+      controlUrl = miniDlnaControlUrl(fallbackIp);
+    }
+    this.contentDirectories.set(serverId, controlUrl);
+    return controlUrl;
+  }
 
-      const req = http.request(options, (res) => {
-        let data = '';
-        res.on('data', (chunk) => data += chunk);
-        res.on('end', () => {
-          // Decode XML entities in DIDL-Lite response
-          const decoded = data
-            .replace(/&lt;/g, '<').replace(/&gt;/g, '>')
-            .replace(/&amp;/g, '&').replace(/&quot;/g, '"');
-          // Extract tracks with title and URL
-          const tracks: Array<{ url: string; title: string }> = [];
-          const itemRegex = /<item[^>]*>[\s\S]*?<\/item>/gi;
-          let itemMatch;
-          while ((itemMatch = itemRegex.exec(decoded)) !== null) {
-            const item = itemMatch[0];
-            const urlMatch = item.match(
-              /http:\/\/[^"<]*\.(mp3|flac|wav|m4a|ogg|aac)/i,
-            );
-            const titleMatch = item.match(
-              /<dc:title>([^<]*)<\/dc:title>/i,
-            );
-            if (urlMatch && !urlMatch[0].includes('AlbumArt')) {
-              tracks.push({
-                url: urlMatch[0],
-                title: titleMatch ? titleMatch[1] : '',
-              });
-            }
-          }
-          resolve(tracks);
-        });
-      });
+  // All tracks below a NAS container: albums directly, artist or genre folders recursively
+  private async resolveNasObjectId(
+    controlUrl: string, objectId: string, options: NasBrowseOptions = {},
+  ): Promise<QueueTrack[]> {
+    const limit = options.limit || NAS_MAX_TRACKS;
+    // Random order picks from the whole folder, not just from the first albums
+    const collectLimit = options.order === 'random' ? Math.max(limit, NAS_MAX_TRACKS) : limit;
+    const tracks: QueueTrack[] = [];
+    const visited = new Set<string>();
+
+    const walk = async (id: string, depth: number): Promise<void> => {
+      if (visited.has(id) || tracks.length >= collectLimit) {
+        return;
+      }
+      visited.add(id);
+      const { items, containers } = await this.browseNasContainer(controlUrl, id, collectLimit - tracks.length);
+      tracks.push(...items);
+      if (depth < NAS_MAX_DEPTH) {
+        for (const container of containers) {
+          await walk(container, depth + 1);
+        }
+      }
+    };
+    await walk(objectId, 0);
+    return orderTracks(tracks, options.order, limit);
+  }
 
-      req.on('error', reject);
-      req.on('timeout', () => {
-        req.destroy();
-        reject(new Error('NAS browse timeout'));
-      });
-      req.write(soapBody);
-      req.end();
-    });
+  // Direct children of a container, page by page until TotalMatches are read. Albums are read
+  // completely before cutting at maxTracks, so a limit keeps the first tracks and not the first page.
+  private async browseNasContainer(
+    controlUrl: string, objectId: string, maxTracks: number,
+  ): Promise<{ items: QueueTrack[]; containers: string[] }> {
+    const items: Array<QueueTrack & { trackNumber?: number }> = [];
+    const containers: string[] = [];
+    let start = 0;
+    let total = Infinity;
+
+    while (start < total && items.length < Math.max(maxTracks, NAS_MAX_TRACKS)) {
+      // Servers may return fewer than requested per page; TotalMatches tells when we are done
+      const page = await browseContentDirectory(controlUrl, objectId, start, NAS_PAGE_SIZE, this.timeout * 2);
+      total = page.total;
+      if (page.returned === 0) {
+        break;
+      }
+      start += page.returned;
+
+      for (const object of page.objects) {
+        const url = audioUrl(object);
+        if (object.kind === 'container' && !object.title.startsWith('@')) {
+          containers.push(object.id);
+        } else if (url) {
+          items.push({ url, title: object.title, trackNumber: object.trackNumber });
+        }
+      }
+    }
+
+    // Album order by track number - unless numbers are missing or repeat (several discs), then as the server sent them
+    const numbers = new Set(items.map(item => item.trackNumber));
+    if (!numbers.has(undefined) && numbers.size === items.length) {
+      items.sort((a, b) => a.trackNumber! - b.trackNumber!);
+    }
+    return {
+      items: items.slice(0, maxTracks).map(({ url, title }) => ({ url, title })),
+      containers,
+    };
   }
 
   async playTuneIn(stationId: string): Promise<void> {
@@ -787,15 +1071,35 @@ export class SoundTouchClient {
     await this.post('/select', xml);
   }
 
+  // Select a ContentItem exactly as reported by getNowPlaying() (e.g. to restore it later)
+  async selectContentItem(item: ContentItem): Promise<void> {
+    const builder = new Builder({ headless: true });
+    const attrs: Record<string, string> = { source: item.source };
+    if (item.type) {
+      attrs.type = item.type;
+    }
+    if (item.location) {
+      attrs.location = item.location;
+    }
+    if (item.sourceAccount) {
+      attrs.sourceAccount = item.sourceAccount;
+    }
+    attrs.isPresetable = item.isPresetable ? 'true' : 'false';
+    const xml = builder.buildObject({
+      ContentItem: item.name ? { $: attrs, itemName: item.name } : { $: attrs },
+    });
+    await this.post('/select', xml);
+  }
+
   async getZone(): Promise<Zone | null> {
     const result = await this.get('/getZone') as {
       zone?: {
         $: { master: string; senderIPAddress?: string; senderMACAddress?: string };
         member?: Array<{
-          $: { ipaddress: string };
+          $: { ipaddress: string; role?: string };
           _: string;
         }> | {
-          $: { ipaddress: string };
+          $: { ipaddress: string; role?: string };
           _: string;
         };
       };
@@ -814,6 +1118,7 @@ export class SoundTouchClient {
         members.push({
           ipaddress: m.$.ipaddress,
           macaddress: m._,
+          ...(m.$.role ? { role: m.$.role } : {}),
         });
       }
     }
@@ -874,6 +1179,68 @@ export class SoundTouchClient {
     await this.post('/removeZoneSlave', xml);
   }
 
+  // Stereo pair (SoundTouch 10 only)
+
+  async getGroup(): Promise<StereoGroup | null> {
+    const result = await this.get('/getGroup') as { group?: unknown };
+    return this.parseGroup(result.group);
+  }
+
+  // Sent to the master (left speaker); returns the group with the ID the speaker assigned
+  async addGroup(group: StereoGroup): Promise<StereoGroup> {
+    const result = await this.post('/addGroup', this.groupXml(group)) as { group?: unknown };
+    return this.parseGroup(result.group) || group;
+  }
+
+  async updateGroup(group: StereoGroup): Promise<StereoGroup> {
+    const result = await this.post('/updateGroup', this.groupXml(group)) as { group?: unknown };
+    return this.parseGroup(result.group) || group;
+  }
+
+  async removeGroup(): Promise<void> {
+    await this.get('/removeGroup');
+  }
+
+  // <group id="..."> with name, masterDeviceId, roles and status; an empty <group /> without a pair
+  private parseGroup(node: unknown): StereoGroup | null {
+    const group = node as {
+      $?: { id?: string };
+      name?: string;
+      masterDeviceId?: string;
+      status?: string;
+      roles?: { groupRole?: Array<Record<string, string>> | Record<string, string> };
+    } | undefined;
+    if (!group || typeof group !== 'object' || !group.masterDeviceId) {
+      return null;
+    }
+    const roles = group.roles?.groupRole;
+    return {
+      id: group.$?.id,
+      name: group.name || '',
+      masterDeviceId: group.masterDeviceId,
+      status: group.status,
+      roles: (Array.isArray(roles) ? roles : roles ? [roles] : []).map((r) => ({
+        deviceId: r.deviceId,
+        role: r.role as StereoRole,
+        ipAddress: r.ipAddress,
+      })),
+    };
+  }
+
+  private groupXml(group: StereoGroup): string {
+    const builder = new Builder({ headless: true });
+    return builder.buildObject({
+      group: {
+        ...(group.id ? { $: { id: group.id } } : {}),
+        name: group.name,
+        masterDeviceId: group.masterDeviceId,
+        roles: {
+          groupRole: group.roles.map((r) => ({ deviceId: r.deviceId, role: r.role, ipAddress: r.ipAddress })),
+        },
+      },
+    });
+  }
+
   async getName(): Promise<string> {
     const result = await this.get('/name') as { name: { _: string } | string };
     if (typeof result.name === 'string') {
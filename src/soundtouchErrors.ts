@@ -0,0 +1,167 @@
+import { parseStringPromise } from 'xml2js';
+
+export interface DeviceErrorDetail {
+  value: number;
+  name: string;
+  severity?: string;
+  message?: string;
+}
+
+// Base class for everything SoundTouchClient rejects with
+export class SoundTouchError extends Error {
+  constructor(message: string, readonly host: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  // Hint for the log, telling the user what to check
+  get hint(): string {
+    return '';
+  }
+}
+
+export class SoundTouchTimeoutError extends SoundTouchError {
+  constructor(host: string, readonly timeout: number, what = 'Request') {
+    super(`${what} timeout after ${timeout}ms`, host);
+  }
+
+  get hint(): string {
+    return 'the speaker did not answer in time - is it busy or on a weak Wi-Fi connection?';
+  }
+}
+
+export class SoundTouchNetworkError extends SoundTouchError {
+  constructor(host: string, readonly code: string | undefined, message: string) {
+    super(code ? `${code}: ${message}` : message, host);
+  }
+
+  get hint(): string {
+    return 'the speaker is not reachable - check that it is powered and the IP address is correct';
+  }
+}
+
+// Non-2xx HTTP response without a parseable error payload
+export class SoundTouchHttpError extends SoundTouchError {
+  constructor(host: string, readonly statusCode: number, readonly body: string, message?: string) {
+    super(message || `HTTP ${statusCode}: ${body}`, host);
+  }
+}
+
+// The device rejected the command with an <errors> payload
+export class SoundTouchDeviceError extends SoundTouchHttpError {
+  constructor(
+    host: string,
+    statusCode: number,
+    body: string,
+    readonly deviceID: string | undefined,
+    readonly errors: DeviceErrorDetail[],
+  ) {
+    const first = errors[0];
+    super(host, statusCode, body,
+      `Device rejected request: ${first.name} (${first.value})${first.message ? ` - ${first.message}` : ''}`);
+  }
+
+  get code(): number {
+    return this.errors[0].value;
+  }
+
+  get errorName(): string {
+    return this.errors[0].name;
+  }
+
+  get isSourceUnavailable(): boolean {
+    return this.errors.some((e) => /SOURCE/i.test(e.name));
+  }
+
+  get isInvalidRequest(): boolean {
+    return this.errors.some((e) => /XML|INVALID|KEY/i.test(e.name));
+  }
+
+  get hint(): string {
+    if (this.isSourceUnavailable) {
+      return 'the source is not available on this speaker - is the account logged in or the input connected?';
+    }
+    if (this.isInvalidRequest) {
+      return 'the speaker does not accept this command - it may not be supported by this model';
+    }
+    return '';
+  }
+}
+
+// SOAP fault from the DLNA renderer (port 8091) or a media server
+export class DlnaSoapError extends SoundTouchHttpError {
+  constructor(
+    host: string,
+    statusCode: number,
+    body: string,
+    readonly upnpErrorCode?: number,
+    readonly upnpErrorDescription?: string,
+  ) {
+    super(host, statusCode, body, upnpErrorCode !== undefined
+      ? `DLNA error ${upnpErrorCode}: ${upnpErrorDescription || 'Unknown'}`
+      : `DLNA error ${statusCode}: ${body}`);
+  }
+
+  get hint(): string {
+    if (this.upnpErrorCode === 714 || this.upnpErrorCode === 716) {
+      return 'the speaker cannot open the stream - check that the URL is reachable via HTTP';
+    }
+    return '';
+  }
+}
+
+export function toNetworkError(host: string, error: NodeJS.ErrnoException, timeout: number): SoundTouchError {
+  if (error instanceof SoundTouchError) {
+    return error;
+  }
+  if (error.code === 'ETIMEDOUT') {
+    return new SoundTouchTimeoutError(host, timeout);
+  }
+  return new SoundTouchNetworkError(host, error.code, error.message);
+}
+
+export async function parseDeviceError(host: string, statusCode: number, body: string): Promise<SoundTouchError> {
+  try {
+    const result = await parseStringPromise(body, { explicitArray: false, ignoreAttrs: false });
+    const errors = result?.errors;
+    if (errors?.error) {
+      const items = Array.isArray(errors.error) ? errors.error : [errors.error];
+      const details: DeviceErrorDetail[] = items.map((e: { $?: Record<string, string>; _?: string } | string) => {
+        const attrs = typeof e === 'string' ? {} : e.$ || {};
+        return {
+          value: parseInt(attrs.value, 10) || 0,
+          name: attrs.name || 'UNKNOWN_ERROR',
+          severity: attrs.severity,
+          message: typeof e === 'string' ? e : e._,
+        };
+      });
+      return new SoundTouchDeviceError(host, statusCode, body, errors.$?.deviceID, details);
+    }
+  } catch {
+    // Not XML - fall through to a plain HTTP error
+  }
+  return new SoundTouchHttpError(host, statusCode, body);
+}
+
+export async function parseSoapFault(host: string, statusCode: number, body: string): Promise<DlnaSoapError> {
+  try {
+    const result = await parseStringPromise(body, {
+      explicitArray: false, ignoreAttrs: true, tagNameProcessors: [(name: string) => name.replace(/^.*:/, '')],
+    });
+    const upnpError = result?.Envelope?.Body?.Fault?.detail?.UPnPError;
+    if (upnpError) {
+      return new DlnaSoapError(host, statusCode, body, parseInt(upnpError.errorCode, 10), upnpError.errorDescription);
+    }
+  } catch {
+    // Not a SOAP envelope
+  }
+  return new DlnaSoapError(host, statusCode, body);
+}
+
+// One-line description for the log: message plus a hint what to check
+export function describeError(error: unknown): string {
+  if (error instanceof SoundTouchError) {
+    return error.hint ? `${error.message} (${error.hint})` : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
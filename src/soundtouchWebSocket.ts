@@ -17,9 +17,37 @@ export interface WebSocketEvents {
   'zoneUpdated': (data: ZoneUpdate) => void;
   'bassUpdated': (data: BassUpdate) => void;
   'connectionStateUpdated': (data: ConnectionStateUpdate) => void;
+  'recentsUpdated': (data: RecentsUpdate) => void;
+  'nameUpdated': (data: NameUpdate) => void;
+  'infoUpdated': () => void;
+  'sourcesUpdated': () => void;
+  'errorUpdate': (data: ErrorUpdate) => void;
+  'groupUpdated': (data: GroupUpdate) => void;
+  'toneControlsUpdated': (data: ToneControlsUpdate) => void;
+  'userActivityUpdate': () => void;
+  'rawUpdate': (data: RawUpdate) => void;
   'error': (error: Error) => void;
   'connected': () => void;
   'disconnected': () => void;
+  'reconnecting': (attempt: number, delay: number) => void;
+}
+
+export interface WebSocketOptions {
+  reconnectDelay?: number;     // First reconnect delay in ms (default: 1000)
+  maxReconnectDelay?: number;  // Backoff cap in ms (default: 60000)
+  pingInterval?: number;       // Heartbeat interval in ms (default: 30000)
+  pongTimeout?: number;        // Reconnect if no pong within this time (default: 10000)
+  rawUpdates?: boolean;        // Emit 'rawUpdate' for messages not handled here (default: false)
+}
+
+export interface ConnectionMetrics {
+  connected: boolean;
+  attempts: number;            // Failed attempts since the last successful connect
+  reconnects: number;          // Successful reconnects since start
+  lastConnected?: Date;
+  lastDisconnected?: Date;
+  lastMessage?: Date;
+  nextReconnectDelay?: number;
 }
 
 export interface VolumeUpdate {
@@ -54,6 +82,7 @@ export interface ZoneUpdate {
   members: Array<{
     ipaddress: string;
     macaddress: string;
+    role?: string;
   }>;
 }
 
@@ -67,20 +96,114 @@ export interface ConnectionStateUpdate {
   up: boolean;
 }
 
+export interface RecentsUpdate {
+  recents: Array<{
+    id?: string;
+    utcTime?: number;
+    source: string;
+    location?: string;
+    sourceAccount?: string;
+    name?: string;
+  }>;
+}
+
+export interface NameUpdate {
+  name?: string;               // Not all firmware versions include the new name
+}
+
+export interface ErrorUpdate {
+  value: number;
+  name: string;
+  severity?: string;
+  message?: string;
+}
+
+export interface GroupUpdate {
+  id?: string;
+  name?: string;
+  masterDeviceId?: string;
+  status?: string;
+  roles: Array<{
+    deviceId: string;
+    role: string;              // LEFT / RIGHT
+    ipAddress?: string;
+  }>;
+}
+
+export interface ToneControlsUpdate {
+  bass?: ToneControlValue;
+  treble?: ToneControlValue;
+}
+
+export interface ToneControlValue {
+  value: number;
+  minValue: number;
+  maxValue: number;
+  step: number;
+}
+
+export interface RawUpdate {
+  type: string;                // Element name, e.g. "languageUpdated"
+  xml: string;                 // The complete message
+}
+
+// Update elements handled by handleMessage()
+const KNOWN_UPDATES = new Set([
+  'volumeUpdated', 'nowPlayingUpdated', 'nowSelectionUpdated', 'presetsUpdated', 'zoneUpdated',
+  'bassUpdated', 'connectionStateUpdated', 'recentsUpdated', 'nameUpdated', 'infoUpdated',
+  'sourcesUpdated', 'errorUpdate', 'groupUpdated', 'audioproducttonecontrols', 'userActivityUpdate',
+]);
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null || (value as unknown) === '') {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseToneValue(node?: { $?: Record<string, string> }): ToneControlValue | undefined {
+  if (!node?.$) {
+    return undefined;
+  }
+  return {
+    value: parseInt(node.$.value, 10),
+    minValue: parseInt(node.$.minValue, 10),
+    maxValue: parseInt(node.$.maxValue, 10),
+    step: parseInt(node.$.step, 10) || 1,
+  };
+}
+
 export class SoundTouchWebSocket extends EventEmitter {
   private ws: WebSocket | null = null;
   private host: string;
   private readonly port: number;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
   private isConnecting = false;
   private shouldReconnect = true;
-  private reconnectDelay = 5000;
-
-  constructor(host: string, port = 8080) {
+  private readonly reconnectDelay: number;
+  private readonly maxReconnectDelay: number;
+  private readonly pingIntervalMs: number;
+  private readonly pongTimeout: number;
+  private readonly rawUpdates: boolean;
+  private attempts = 0;
+  private reconnects = 0;
+  private hasConnected = false;
+  private lastConnected?: Date;
+  private lastDisconnected?: Date;
+  private lastMessage?: Date;
+  private nextReconnectDelay?: number;
+
+  constructor(host: string, port = 8080, options: WebSocketOptions = {}) {
     super();
     this.host = host;
     this.port = port;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 60000;
+    this.pingIntervalMs = options.pingInterval ?? 30000;
+    this.pongTimeout = options.pongTimeout ?? 10000;
+    this.rawUpdates = options.rawUpdates ?? false;
   }
 
   connect(): void {
@@ -92,30 +215,61 @@ export class SoundTouchWebSocket extends EventEmitter {
     this.shouldReconnect = true;
 
     try {
-      this.ws = new WebSocket(`ws://${this.host}:${this.port}`, 'gabbo');
+      const ws = new WebSocket(`ws://${this.host}:${this.port}`, 'gabbo');
+      this.ws = ws;
 
-      this.ws.on('open', () => {
+      // Events of a replaced socket (host change, forced reconnect) are ignored
+      ws.on('open', () => {
+        if (this.ws !== ws) {
+          return;
+        }
         this.isConnecting = false;
+        this.attempts = 0;
+        this.nextReconnectDelay = undefined;
+        if (this.hasConnected) {
+          this.reconnects++;
+        }
+        this.hasConnected = true;
+        this.lastConnected = new Date();
         this.emit('connected');
         this.startPing();
       });
 
-      this.ws.on('message', (data: WebSocket.Data) => {
+      ws.on('message', (data: WebSocket.Data) => {
+        if (this.ws !== ws) {
+          return;
+        }
+        this.lastMessage = new Date();
         this.handleMessage(data.toString());
       });
 
-      this.ws.on('error', (error) => {
-        this.emit('error', error);
+      ws.on('pong', () => {
+        this.clearPongTimer();
       });
 
-      this.ws.on('close', () => {
+      ws.on('error', (error) => {
+        if (this.ws === ws) {
+          this.emit('error', error);
+        }
+      });
+
+      ws.on('close', () => {
+        if (this.ws !== ws) {
+          return;
+        }
+        const wasOpen = !this.isConnecting;
         this.isConnecting = false;
+        this.ws = null;
         this.cleanup();
-        this.emit('disconnected');
+        if (wasOpen) {
+          this.lastDisconnected = new Date();
+          this.emit('disconnected');
+        }
         this.scheduleReconnect();
       });
     } catch (error) {
       this.isConnecting = false;
+      this.ws = null;
       this.emit('error', error instanceof Error ? error : new Error(String(error)));
       this.scheduleReconnect();
     }
@@ -125,6 +279,7 @@ export class SoundTouchWebSocket extends EventEmitter {
     this.host = host;
     // Reconnect with new host
     this.disconnect();
+    this.attempts = 0;
     this.connect();
   }
 
@@ -132,28 +287,59 @@ export class SoundTouchWebSocket extends EventEmitter {
     this.shouldReconnect = false;
     this.cleanup();
     if (this.ws) {
-      this.ws.close();
+      const ws = this.ws;
       this.ws = null;
+      this.isConnecting = false;
+      ws.close();
     }
   }
 
+  getMetrics(): ConnectionMetrics {
+    return {
+      connected: this.isConnected,
+      attempts: this.attempts,
+      reconnects: this.reconnects,
+      lastConnected: this.lastConnected,
+      lastDisconnected: this.lastDisconnected,
+      lastMessage: this.lastMessage,
+      nextReconnectDelay: this.nextReconnectDelay,
+    };
+  }
+
   private cleanup(): void {
     if (this.pingInterval) {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    this.clearPongTimer();
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
   }
 
+  private clearPongTimer(): void {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
   private startPing(): void {
     this.pingInterval = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.ping();
+      const ws = this.ws;
+      if (ws?.readyState !== WebSocket.OPEN || this.pongTimer) {
+        return;
       }
-    }, 30000);
+      ws.ping();
+      // Half-open socket (e.g. after Wi-Fi roaming): no pong, no close event.
+      // Terminate so the close handler reconnects.
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = null;
+        this.emit('error', new Error(`No pong within ${this.pongTimeout}ms, reconnecting`));
+        ws.terminate();
+      }, this.pongTimeout);
+    }, this.pingIntervalMs);
   }
 
   private scheduleReconnect(): void {
@@ -161,11 +347,17 @@ export class SoundTouchWebSocket extends EventEmitter {
       return;
     }
 
+    // Exponential backoff with jitter, so many boxes don't reconnect in lockstep
+    const base = Math.min(this.maxReconnectDelay, this.reconnectDelay * 2 ** this.attempts);
+    const delay = Math.round(base / 2 + Math.random() * base / 2);
+    this.attempts++;
+    this.nextReconnectDelay = delay;
+    this.emit('reconnecting', this.attempts, delay);
+
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
-      this.ws = null;
       this.connect();
-    }, this.reconnectDelay);
+    }, delay);
   }
 
   private async handleMessage(data: string): Promise<void> {
@@ -239,18 +431,19 @@ export class SoundTouchWebSocket extends EventEmitter {
 
         if (updates.zoneUpdated) {
           const zone = updates.zoneUpdated.zone;
-          const members: Array<{ ipaddress: string; macaddress: string }> = [];
+          const members: ZoneUpdate['members'] = [];
           if (zone?.member) {
             const memberList = Array.isArray(zone.member) ? zone.member : [zone.member];
             for (const m of memberList) {
               members.push({
                 ipaddress: m.$.ipaddress,
                 macaddress: m._,
+                ...(m.$.role ? { role: m.$.role } : {}),
               });
             }
           }
           this.emit('zoneUpdated', {
-            master: zone?.$.master,
+            master: zone?.$?.master, // An empty <zone /> when the zone was dissolved
             members,
           } as ZoneUpdate);
         }
@@ -270,6 +463,89 @@ export class SoundTouchWebSocket extends EventEmitter {
             up: state.$.up === 'true',
           } as ConnectionStateUpdate);
         }
+
+        // The following are often empty elements (<infoUpdated />), which
+        // xml2js turns into '' - so check for presence, not truthiness
+        if (updates.recentsUpdated !== undefined) {
+          const recents = toArray(updates.recentsUpdated.recents?.recent);
+          this.emit('recentsUpdated', {
+            recents: recents.map((r: {
+              $?: { id?: string; utcTime?: string };
+              contentItem?: { $: Record<string, string>; itemName?: string };
+            }) => ({
+              id: r.$?.id,
+              utcTime: r.$?.utcTime ? parseInt(r.$.utcTime, 10) : undefined,
+              source: r.contentItem?.$.source || '',
+              location: r.contentItem?.$.location,
+              sourceAccount: r.contentItem?.$.sourceAccount,
+              name: r.contentItem?.itemName,
+            })),
+          } as RecentsUpdate);
+        }
+
+        if (updates.nameUpdated !== undefined) {
+          const name = updates.nameUpdated.name;
+          this.emit('nameUpdated', {
+            name: typeof name === 'string' ? name : name?._,
+          } as NameUpdate);
+        }
+
+        if (updates.infoUpdated !== undefined) {
+          this.emit('infoUpdated');
+        }
+
+        if (updates.sourcesUpdated !== undefined) {
+          this.emit('sourcesUpdated');
+        }
+
+        if (updates.errorUpdate !== undefined) {
+          for (const error of toArray(updates.errorUpdate.error)) {
+            const e = error as { $?: Record<string, string>; _?: string } | string;
+            const attrs = typeof e === 'string' ? {} : e.$ || {};
+            this.emit('errorUpdate', {
+              value: parseInt(attrs.value, 10) || 0,
+              name: attrs.name || 'UNKNOWN_ERROR',
+              severity: attrs.severity,
+              message: typeof e === 'string' ? e : e._,
+            } as ErrorUpdate);
+          }
+        }
+
+        if (updates.groupUpdated !== undefined) {
+          const group = updates.groupUpdated.group || {};
+          this.emit('groupUpdated', {
+            id: group.$?.id,
+            name: group.name,
+            masterDeviceId: group.masterDeviceId,
+            status: group.status,
+            roles: toArray(group.roles?.groupRole).map((r: { deviceId: string; role: string; ipAddress?: string }) => ({
+              deviceId: r.deviceId,
+              role: r.role,
+              ipAddress: r.ipAddress,
+            })),
+          } as GroupUpdate);
+        }
+
+        if (updates.audioproducttonecontrols !== undefined) {
+          const tone = updates.audioproducttonecontrols;
+          this.emit('toneControlsUpdated', {
+            bass: parseToneValue(tone.bass),
+            treble: parseToneValue(tone.treble),
+          } as ToneControlsUpdate);
+        }
+
+        if (updates.userActivityUpdate !== undefined) {
+          this.emit('userActivityUpdate');
+        }
+      }
+
+      if (this.rawUpdates) {
+        const types = result.updates
+          ? Object.keys(result.updates).filter((key) => key !== '$' && !KNOWN_UPDATES.has(key))
+          : Object.keys(result);
+        for (const type of types) {
+          this.emit('rawUpdate', { type, xml: data } as RawUpdate);
+        }
       }
     } catch {
       // Ignore parsing errors for malformed messages
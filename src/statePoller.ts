@@ -0,0 +1,111 @@
+import { EventEmitter } from 'events';
+import { SoundTouchClient } from './soundtouchClient';
+import { WebSocketEvents } from './soundtouchWebSocket';
+
+type PollerEvents = Pick<WebSocketEvents, 'volumeUpdated' | 'nowPlayingUpdated' | 'bassUpdated' | 'zoneUpdated' | 'error'>;
+
+// Fallback for devices whose WebSocket (port 8080) is unreachable: reads the
+// state via HTTP and emits the same events as SoundTouchWebSocket, but only
+// when something changed.
+export class StatePoller extends EventEmitter {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private generation = 0; // Bumped by start/stop, so a poll still in flight does not go on
+  private answering = false; // Last poll went through
+  private readonly lastState: Map<string, string> = new Map();
+
+  constructor(
+    private readonly client: SoundTouchClient,
+    private readonly interval = 10000,
+    private readonly pollBass = false,
+  ) {
+    super();
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  get isAnswering(): boolean {
+    return this.running && this.answering;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.lastState.clear();
+    this.poll(++this.generation);
+  }
+
+  stop(): void {
+    this.running = false;
+    this.generation++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(generation: number): Promise<void> {
+    try {
+      const nowPlaying = await this.client.getNowPlaying();
+      this.emitIfChanged(generation, 'nowPlayingUpdated', {
+        source: nowPlaying.source,
+        sourceAccount: nowPlaying.sourceAccount,
+        track: nowPlaying.track,
+        artist: nowPlaying.artist,
+        album: nowPlaying.album,
+        stationName: nowPlaying.stationName,
+        art: nowPlaying.art,
+        playStatus: nowPlaying.playStatus,
+        shuffleSetting: nowPlaying.shuffleSetting,
+        repeatSetting: nowPlaying.repeatSetting,
+      });
+
+      const volume = await this.client.getVolume();
+      this.emitIfChanged(generation, 'volumeUpdated', volume);
+
+      if (this.pollBass) {
+        const bass = await this.client.getBass();
+        this.emitIfChanged(generation, 'bassUpdated', bass);
+      }
+
+      const zone = await this.client.getZone();
+      this.emitIfChanged(generation, 'zoneUpdated', {
+        master: zone?.master,
+        members: (zone?.members || []).map((m) => ({ ipaddress: m.ipaddress, macaddress: m.macaddress, role: m.role })),
+      });
+      this.answering = true;
+    } catch (error) {
+      this.answering = false;
+      if (generation === this.generation) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    if (this.running && generation === this.generation) {
+      this.timer = setTimeout(() => this.poll(generation), this.interval);
+    }
+  }
+
+  private emitIfChanged<K extends keyof PollerEvents>(
+    generation: number, event: K, data: Parameters<PollerEvents[K]>[0],
+  ): void {
+    const serialized = JSON.stringify(data);
+    if (!this.running || generation !== this.generation || this.lastState.get(event) === serialized) {
+      return;
+    }
+    this.lastState.set(event, serialized);
+    this.emit(event, ...([data] as Parameters<PollerEvents[K]>));
+  }
+
+  on<K extends keyof PollerEvents>(event: K, listener: PollerEvents[K]): this {
+    return super.on(event, listener);
+  }
+
+  emit<K extends keyof PollerEvents>(event: K, ...args: Parameters<PollerEvents[K]>): boolean {
+    return super.emit(event, ...args);
+  }
+}
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SoundTouchPlatform, DeviceConfig, StereoPairConfig } from './platform';
+import { SoundTouchAccessory } from './soundtouchAccessory';
+import { SoundTouchClient, StereoGroup } from './soundtouchClient';
+import { GroupUpdate } from './soundtouchWebSocket';
+import { describeError } from './soundtouchErrors';
+
+// Two SoundTouch 10 bonded as a stereo pair. The left speaker is the pair's
+// master and the only one in HomeKit; playback and volume reach the right one
+// through the bond. The pair is created (or corrected) whenever the left speaker
+// comes up and after it was dissolved elsewhere. Pairs the plugin set up are kept
+// in the Homebridge storage directory, so a pair removed from the config is dissolved.
+export class StereoPairManager {
+  private readonly rightSpeakers: Map<StereoPairConfig, DeviceConfig> = new Map();
+  private readonly bonding: Set<StereoPairConfig> = new Set();
+  private readonly statePath: string;
+  private bonded: Record<string, string> = {}; // Left speaker MAC -> pair name
+
+  constructor(private readonly platform: SoundTouchPlatform) {
+    this.statePath = path.join(platform.api.user.storagePath(), 'bose-soundtouch-stereo-pairs.json');
+    this.loadState();
+  }
+
+  // Pair a device config belongs to, as left or right speaker
+  findPair(device: DeviceConfig): { pair: StereoPairConfig; role: 'left' | 'right' } | undefined {
+    const matches = (name: string) => name === device.host || name.toLowerCase() === device.name?.toLowerCase();
+    for (const pair of this.getPairs()) {
+      if (matches(pair.left)) {
+        return { pair, role: 'left' };
+      }
+      if (matches(pair.right)) {
+        return { pair, role: 'right' };
+      }
+    }
+    return undefined;
+  }
+
+  // The right speaker is not published, only remembered for bonding. False if it was known already.
+  addRightSpeaker(pair: StereoPairConfig, device: DeviceConfig): boolean {
+    const known = this.rightSpeakers.get(pair);
+    this.rightSpeakers.set(pair, { ...known, ...device });
+    if (known?.host === device.host) {
+      return false;
+    }
+    this.rebond(pair);
+    return true;
+  }
+
+  // mDNS or the rescan found a speaker at host: true if it is the right speaker of a pair
+  updateRightSpeakerHost(mac: string, host: string): boolean {
+    for (const [pair, device] of this.rightSpeakers) {
+      if (device.deviceID?.toUpperCase() !== mac.toUpperCase()) {
+        continue;
+      }
+      if (device.host !== host) {
+        this.platform.log.info(`Stereo pair "${pair.name}": right speaker IP changed: ${device.host} -> ${host}`);
+        this.rightSpeakers.set(pair, { ...device, host });
+        this.rebond(pair);
+      }
+      return true;
+    }
+    return false;
+  }
+
+  // A speaker finished initializing: bond its pair, or dissolve a pair that is no longer configured
+  handleSpeakerReady(speaker: SoundTouchAccessory): void {
+    const pair = this.getPairs().find(p => this.getLeftSpeaker(p) === speaker);
+    if (pair) {
+      this.rebond(pair);
+      return;
+    }
+    this.dissolveUnconfigured(speaker).catch((error) => {
+      this.platform.log.error(`Stereo pair of ${speaker.getAccessoryName()} could not be dissolved: ${describeError(error)}`);
+    });
+  }
+
+  async bond(pair: StereoPairConfig): Promise<void> {
+    const left = this.getLeftSpeaker(pair);
+    const right = this.rightSpeakers.get(pair);
+    if (!left || !right) {
+      throw new Error(`${left ? 'right' : 'left'} speaker not found`);
+    }
+
+    const client = left.getClient();
+    const rightClient = new SoundTouchClient(right.host, 8090, this.platform.config.requestTimeout || 5000);
+    try {
+      const [leftInfo, rightInfo] = await Promise.all([client.getInfo(), rightClient.getInfo()]);
+      if (!/SoundTouch 10/i.test(leftInfo.type) || !/SoundTouch 10/i.test(rightInfo.type)) {
+        throw new Error(`stereo pairs need two SoundTouch 10 (found ${leftInfo.type} and ${rightInfo.type})`);
+      }
+      const leftMac = (leftInfo.macAddress || leftInfo.deviceID).toUpperCase();
+      const rightMac = (rightInfo.macAddress || rightInfo.deviceID).toUpperCase();
+      // Known by MAC from now on, so a new IP of the right speaker is recognized
+      this.rightSpeakers.set(pair, { ...right, deviceID: rightMac });
+
+      const wanted: StereoGroup = {
+        name: pair.name,
+        masterDeviceId: leftMac,
+        roles: [
+          { deviceId: leftMac, role: 'LEFT', ipAddress: left.getHost() },
+          { deviceId: rightMac, role: 'RIGHT', ipAddress: right.host },
+        ],
+      };
+      const current = await client.getGroup();
+      if (!current) {
+        await client.addGroup(wanted);
+        this.platform.log.info(`Stereo pair "${pair.name}" created: ${left.getAccessoryName()} left, ${right.name || right.host} right`);
+      } else if (!sameGroup(current, wanted)) {
+        await client.updateGroup({ ...wanted, id: current.id });
+        this.platform.log.info(`Stereo pair "${pair.name}" updated`);
+      } else {
+        this.platform.log.debug(`Stereo pair "${pair.name}" already set up`);
+      }
+      if (this.bonded[leftMac] !== pair.name) {
+        this.bonded[leftMac] = pair.name;
+        this.saveState();
+      }
+    } finally {
+      rightClient.destroy();
+    }
+  }
+
+  // groupUpdated from a speaker: the pair was created, changed or dissolved
+  handleGroupUpdate(speaker: SoundTouchAccessory, group: GroupUpdate): void {
+    const pair = this.getPairs().find(p => this.getLeftSpeaker(p) === speaker);
+    if (!pair) {
+      return;
+    }
+    if (group.roles.length === 0) {
+      if (!this.bonding.has(pair)) {
+        this.platform.log.warn(`Stereo pair "${pair.name}" was dissolved (e.g. in the SoundTouch app), setting it up again`);
+      }
+      this.rebond(pair);
+    } else if (group.status && group.status !== 'GROUP_OK') {
+      this.platform.log.warn(`Stereo pair "${pair.name}": ${group.status}`);
+    }
+  }
+
+  // One bond per pair at a time; waits for the left speaker to come up
+  private rebond(pair: StereoPairConfig): void {
+    if (this.bonding.has(pair) || !this.getLeftSpeaker(pair)?.getDeviceInfo()) {
+      return;
+    }
+    this.bonding.add(pair);
+    this.bond(pair).catch((error) => {
+      this.platform.log.error(`Stereo pair "${pair.name}" failed: ${describeError(error)}`);
+    }).finally(() => {
+      this.bonding.delete(pair);
+    });
+  }
+
+  private async dissolveUnconfigured(speaker: SoundTouchAccessory): Promise<void> {
+    const mac = speaker.getMac();
+    const name = mac ? this.bonded[mac] : undefined;
+    if (!mac || !name) {
+      return;
+    }
+    const group = await speaker.getClient().getGroup();
+    // Only the pair the plugin set up; one made in the SoundTouch app since then stays
+    if (group?.name === name) {
+      await speaker.getClient().removeGroup();
+      this.platform.log.info(`Stereo pair "${name}" is no longer configured and was dissolved`);
+    }
+    delete this.bonded[mac];
+    this.saveState();
+  }
+
+  private getLeftSpeaker(pair: StereoPairConfig): SoundTouchAccessory | undefined {
+    const wanted = pair.left.toLowerCase();
+    return this.platform.getAllAccessories().find(a => a.getHost() === pair.left || a.getAccessoryName().toLowerCase() === wanted);
+  }
+
+  private getPairs(): StereoPairConfig[] {
+    return (this.platform.config.stereoPairs || []).filter(p => p.name && p.left && p.right);
+  }
+
+  private loadState(): void {
+    try {
+      if (fs.existsSync(this.statePath)) {
+        this.bonded = JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+      }
+    } catch (error) {
+      this.platform.log.warn('Failed to read stereo pair state:', error);
+    }
+  }
+
+  private saveState(): void {
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify(this.bonded, null, 2));
+    } catch (error) {
+      this.platform.log.error('Failed to save stereo pair state:', error);
+    }
+  }
+}
+
+function sameGroup(a: StereoGroup, b: StereoGroup): boolean {
+  const roles = (g: StereoGroup) => g.roles
+    .map(r => `${r.role}:${r.deviceId.toUpperCase()}@${r.ipAddress}`)
+    .sort()
+    .join();
+  return a.name === b.name && a.masterDeviceId.toUpperCase() === b.masterDeviceId.toUpperCase() && roles(a) === roles(b);
+}
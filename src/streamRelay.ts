@@ -0,0 +1,264 @@
+import { Logger } from 'homebridge';
+import * as http from 'http';
+import * as https from 'https';
+import { describeError } from './soundtouchErrors';
+
+const MAX_REDIRECTS = 5;
+const CONNECT_TIMEOUT = 10_000; // Also the idle timeout of a running stream
+const METADATA_INTERVAL = 16_000; // Bytes between ICY metadata blocks sent to the speaker
+
+// Fetches an HTTPS stream and serves it to a speaker over plain HTTP. A dropped
+// upstream connection is re-opened without the speaker noticing; ICY metadata
+// (station/track title) is passed through with a fixed interval of our own, so
+// it stays in sync across reconnects.
+export class StreamRelay {
+  private static readonly MAX_RECONNECTS = 5;
+  private static readonly RECONNECT_DELAY = 1_000;
+  private static readonly STABLE_AFTER = 30_000; // Reconnect counter is reset after this
+
+  constructor(
+    private readonly log: Logger,
+    readonly url: string,
+  ) {}
+
+  serve(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const wantsMetadata = req.headers['icy-metadata'] === '1';
+    const controller = new AbortController();
+    let writer: IcyWriter | undefined;
+    let reconnects = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    res.on('close', () => {
+      clearTimeout(retryTimer);
+      controller.abort();
+    });
+
+    const retry = (reason: string, connectedAt?: number) => {
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (connectedAt && Date.now() - connectedAt > StreamRelay.STABLE_AFTER) {
+        reconnects = 0;
+      }
+      reconnects++;
+      if (reconnects > StreamRelay.MAX_RECONNECTS) {
+        this.log.warn(`Stream relay: giving up on ${this.url} (${reason})`);
+        if (!res.headersSent) {
+          res.writeHead(502);
+        }
+        res.end();
+        return;
+      }
+      this.log.debug(`Stream relay: ${this.url} interrupted (${reason}), reconnecting`);
+      retryTimer = setTimeout(connect, StreamRelay.RECONNECT_DELAY * reconnects);
+    };
+
+    const connect = async () => {
+      let upstream: http.IncomingMessage;
+      try {
+        upstream = await openStream(this.url, controller.signal);
+      } catch (error) {
+        retry(describeError(error));
+        return;
+      }
+
+      if (!writer) {
+        const headers: http.OutgoingHttpHeaders = {
+          'Content-Type': upstream.headers['content-type'] || 'audio/mpeg',
+          'Cache-Control': 'no-cache',
+        };
+        for (const [name, value] of Object.entries(upstream.headers)) {
+          if (name.startsWith('icy-') && name !== 'icy-metaint') {
+            headers[name] = value;
+          }
+        }
+        if (wantsMetadata) {
+          headers['icy-metaint'] = METADATA_INTERVAL;
+        }
+        res.writeHead(200, headers);
+        if (req.method === 'HEAD') {
+          upstream.destroy();
+          res.end();
+          return;
+        }
+        writer = new IcyWriter(res, wantsMetadata ? METADATA_INTERVAL : 0);
+      }
+
+      const output = writer;
+      const connectedAt = Date.now();
+      let waiting = false;
+      const reader = new IcyReader(
+        parseInt(String(upstream.headers['icy-metaint'] || ''), 10) || 0,
+        (audio) => {
+          if (!output.write(audio) && !waiting) {
+            waiting = true;
+            upstream.pause();
+            res.once('drain', () => {
+              waiting = false;
+              upstream.resume();
+            });
+          }
+        },
+        (metadata) => output.setMetadata(metadata),
+      );
+
+      let done = false;
+      const finish = (reason: string) => {
+        if (!done) {
+          done = true;
+          retry(reason, connectedAt);
+        }
+      };
+      upstream.on('data', (chunk: Buffer) => reader.push(chunk));
+      upstream.on('end', () => finish('stream ended'));
+      upstream.on('error', (error) => finish(describeError(error)));
+      upstream.on('close', () => finish('connection closed'));
+    };
+
+    connect();
+  }
+}
+
+// Whether the stream answers with audio under the given URL (with httpOnly: without being redirected to HTTPS)
+export async function isStreamReachable(url: string, httpOnly = true): Promise<boolean> {
+  const controller = new AbortController();
+  try {
+    const response = await openStream(url, controller.signal, httpOnly);
+    return !String(response.headers['content-type'] || '').startsWith('text/html');
+  } catch {
+    return false;
+  } finally {
+    controller.abort();
+  }
+}
+
+// GET with redirects, resolves once the response body starts
+export async function openStream(url: string, signal: AbortSignal, httpOnly = false, redirects = 0): Promise<http.IncomingMessage> {
+  const secure = /^https:/i.test(url);
+  if (secure && httpOnly) {
+    throw new Error('Redirected to HTTPS');
+  }
+
+  const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+    const request = (secure ? https : http).get(url, {
+      headers: { 'Icy-MetaData': '1', 'User-Agent': 'homebridge-bose-soundtouch' },
+      timeout: CONNECT_TIMEOUT,
+      signal,
+    }, resolve);
+    request.on('timeout', () => request.destroy(new Error('Timeout')));
+    request.on('error', reject);
+  });
+
+  const status = response.statusCode || 0;
+  const location = response.headers.location;
+  if (status >= 300 && status < 400 && location && redirects < MAX_REDIRECTS) {
+    response.resume();
+    return openStream(new URL(location, url).toString(), signal, httpOnly, redirects + 1);
+  }
+  if (status !== 200) {
+    response.resume();
+    throw new Error(`HTTP ${status}`);
+  }
+  return response;
+}
+
+// Splits an ICY stream (audio, length byte, metadata, audio, ...) into audio and metadata
+export class IcyReader {
+  private audioLeft: number;
+  private metadataLeft = -1; // -1 = next byte is the length of the metadata block
+  private metadata: Buffer[] = [];
+
+  constructor(
+    private readonly interval: number,
+    private readonly onAudio: (audio: Buffer) => void,
+    private readonly onMetadata: (metadata: string) => void,
+  ) {
+    this.audioLeft = interval;
+  }
+
+  push(chunk: Buffer): void {
+    if (this.interval === 0) {
+      this.onAudio(chunk);
+      return;
+    }
+
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (this.audioLeft > 0) {
+        const length = Math.min(this.audioLeft, chunk.length - offset);
+        this.onAudio(chunk.subarray(offset, offset + length));
+        offset += length;
+        this.audioLeft -= length;
+      } else if (this.metadataLeft < 0) {
+        this.metadataLeft = chunk[offset++] * 16;
+        this.metadata = [];
+        if (this.metadataLeft === 0) {
+          this.metadataLeft = -1;
+          this.audioLeft = this.interval;
+        }
+      } else {
+        const length = Math.min(this.metadataLeft, chunk.length - offset);
+        this.metadata.push(chunk.subarray(offset, offset + length));
+        offset += length;
+        this.metadataLeft -= length;
+        if (this.metadataLeft === 0) {
+          this.onMetadata(Buffer.concat(this.metadata).toString('utf-8').replace(/\0+$/, ''));
+          this.metadataLeft = -1;
+          this.audioLeft = this.interval;
+        }
+      }
+    }
+  }
+}
+
+// Writes audio to the speaker, with a metadata block every `interval` bytes if it asked for ICY metadata
+class IcyWriter {
+  private untilMetadata: number;
+  private pendingMetadata?: string;
+
+  constructor(
+    private readonly res: http.ServerResponse,
+    private readonly interval: number,
+  ) {
+    this.untilMetadata = interval;
+  }
+
+  setMetadata(metadata: string): void {
+    this.pendingMetadata = metadata;
+  }
+
+  // false if the speaker is not keeping up (wait for 'drain')
+  write(audio: Buffer): boolean {
+    if (this.interval === 0) {
+      return this.res.write(audio);
+    }
+
+    let ok = true;
+    let offset = 0;
+    while (offset < audio.length) {
+      const length = Math.min(this.untilMetadata, audio.length - offset);
+      ok = this.res.write(audio.subarray(offset, offset + length)) && ok;
+      offset += length;
+      this.untilMetadata -= length;
+      if (this.untilMetadata === 0) {
+        ok = this.res.write(this.metadataBlock()) && ok;
+        this.untilMetadata = this.interval;
+      }
+    }
+    return ok;
+  }
+
+  // Only changed metadata is sent, otherwise an empty block
+  private metadataBlock(): Buffer {
+    if (this.pendingMetadata === undefined) {
+      return Buffer.from([0]);
+    }
+    const data = Buffer.from(this.pendingMetadata, 'utf-8');
+    this.pendingMetadata = undefined;
+    const blocks = Math.min(255, Math.ceil(data.length / 16));
+    const block = Buffer.alloc(1 + blocks * 16);
+    block[0] = blocks;
+    data.copy(block, 1, 0, blocks * 16);
+    return block;
+  }
+}
@@ -0,0 +1,87 @@
+import { Zone, ZoneMember } from './soundtouchClient';
+import { ZoneUpdate } from './soundtouchWebSocket';
+
+export type ZoneRole = 'master' | 'slave' | 'standalone';
+
+export interface ZoneChange {
+  changed: boolean;
+  dissolved: string[]; // MACs of masters whose zone is gone
+}
+
+// Multi-room zones of all speakers, fed by the zoneUpdated messages each speaker
+// sends. A master reports the complete zone, a slave at least itself and the
+// master, a speaker without zone an empty one. Keyed by master MAC.
+export class ZoneRegistry {
+  private readonly zones: Map<string, Zone> = new Map();
+
+  // reporter: MAC of the speaker that sent the update
+  update(reporter: string, update: ZoneUpdate): ZoneChange {
+    const mac = reporter.toUpperCase();
+    const before = new Map(Array.from(this.zones.entries()).map(([master, zone]) => [master, JSON.stringify(zone)]));
+    const master = update.master?.toUpperCase();
+    const members: ZoneMember[] = update.members.map(m => ({
+      ipaddress: m.ipaddress,
+      macaddress: m.macaddress.toUpperCase(),
+      ...(m.role ? { role: m.role } : {}),
+    }));
+
+    if (!master || !members.some(m => m.macaddress !== master)) {
+      this.remove(mac);
+    } else if (master === mac) {
+      // A speaker is in one zone only
+      for (const member of members) {
+        this.remove(member.macaddress);
+      }
+      this.zones.set(master, { master, members });
+    } else {
+      this.remove(mac, master);
+      const zone = this.zones.get(master) || { master, members: [] };
+      for (const member of members) {
+        if (!zone.members.some(m => m.macaddress === member.macaddress)) {
+          zone.members.push(member);
+        }
+      }
+      this.zones.set(master, zone);
+    }
+
+    const dissolved = Array.from(before.keys()).filter(m => !this.zones.has(m));
+    const changed = dissolved.length > 0 || this.zones.size !== before.size
+      || Array.from(this.zones.entries()).some(([m, zone]) => before.get(m) !== JSON.stringify(zone));
+    return { changed, dissolved };
+  }
+
+  getRole(mac: string | undefined): ZoneRole {
+    const wanted = mac?.toUpperCase();
+    if (!wanted) {
+      return 'standalone';
+    }
+    if (this.zones.has(wanted)) {
+      return 'master';
+    }
+    return this.getZone(wanted) ? 'slave' : 'standalone';
+  }
+
+  // Zone the speaker is master or member of
+  getZone(mac: string | undefined): Zone | undefined {
+    const wanted = mac?.toUpperCase();
+    if (!wanted) {
+      return undefined;
+    }
+    return this.zones.get(wanted)
+      || Array.from(this.zones.values()).find(zone => zone.members.some(m => m.macaddress === wanted));
+  }
+
+  // Takes a speaker out of the registry: its own zone ends, as a slave it leaves
+  // its zone, and a zone left without slaves ends too. The zone of except is left alone.
+  private remove(mac: string, except?: string): void {
+    this.zones.delete(mac);
+    for (const [master, zone] of this.zones) {
+      if (master !== except && zone.members.some(m => m.macaddress === mac)) {
+        zone.members = zone.members.filter(m => m.macaddress !== mac);
+        if (!zone.members.some(m => m.macaddress !== master)) {
+          this.zones.delete(master);
+        }
+      }
+    }
+  }
+}
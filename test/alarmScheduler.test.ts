@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AlarmScheduler, AlarmTarget, normalizeTime } from '../src/alarmScheduler';
+import { AlarmConfig } from '../src/platform';
+import { createLogger } from './testLogger';
+
+// Records the alarms that fired
+class Speaker implements AlarmTarget {
+  readonly played: string[] = [];
+  fail = false;
+
+  async playAlarm(alarm: AlarmConfig): Promise<void> {
+    this.played.push(alarm.name || alarm.time);
+    if (this.fail) {
+      throw new Error('speaker offline');
+    }
+  }
+}
+
+// Monday, 2026-10-19
+const at = (time: string, day = 19) => new Date(`2026-10-${day}T${time}:00`);
+
+describe('AlarmScheduler', () => {
+  let storagePath: string;
+  let scheduler: AlarmScheduler;
+  let speaker: Speaker;
+  const log = createLogger();
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'alarms-'));
+    scheduler = new AlarmScheduler(log, storagePath);
+    speaker = new Speaker();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('fires at the alarm time, once per minute', () => {
+    scheduler.add('wake', { name: 'Wake up', time: '7:05' }, speaker, 'Bedroom Wake up');
+    scheduler['check'](at('07:04'));
+    assert.deepEqual(speaker.played, []);
+
+    scheduler['check'](at('07:05'));
+    scheduler['check'](new Date(at('07:05').getTime() + 45_000));
+    assert.deepEqual(speaker.played, ['Wake up']);
+
+    // Next day again
+    scheduler['check'](at('07:05', 20));
+    assert.deepEqual(speaker.played, ['Wake up', 'Wake up']);
+  });
+
+  it('fires only on the configured weekdays', () => {
+    scheduler.add('weekdays', { name: 'Work', time: '06:30', days: [1, 2, 3, 4, 5] }, speaker, 'Work');
+    scheduler['check'](at('06:30', 18)); // Sunday
+    scheduler['check'](at('06:30', 24)); // Saturday
+    assert.deepEqual(speaker.played, []);
+    scheduler['check'](at('06:30', 19)); // Monday
+    assert.deepEqual(speaker.played, ['Work']);
+  });
+
+  it('skips disabled alarms and keeps the state across restarts', () => {
+    scheduler.add('wake', { time: '07:00', enabled: false }, speaker, 'Wake');
+    assert.equal(scheduler.isEnabled('wake'), false);
+    scheduler['check'](at('07:00'));
+    assert.deepEqual(speaker.played, []);
+
+    scheduler.setEnabled('wake', true);
+    const restarted = new AlarmScheduler(log, storagePath);
+    restarted.add('wake', { time: '07:00', enabled: false }, speaker, 'Wake');
+    assert.equal(restarted.isEnabled('wake'), true);
+    restarted['check'](at('07:00'));
+    assert.deepEqual(speaker.played, ['07:00']);
+  });
+
+  it('logs an alarm that failed to play', async () => {
+    speaker.fail = true;
+    scheduler.add('wake', { time: '07:00' }, speaker, 'Bedroom 07:00');
+    scheduler['check'](at('07:00'));
+    await new Promise(resolve => setImmediate(resolve));
+    assert.ok(log.messages.includes('error Alarm Bedroom 07:00 failed: speaker offline'));
+  });
+});
+
+describe('normalizeTime', () => {
+  it('pads the hour and rejects anything else', () => {
+    assert.equal(normalizeTime('7:05'), '07:05');
+    assert.equal(normalizeTime(' 18:30 '), '18:30');
+    assert.equal(normalizeTime('7'), '');
+    assert.equal(normalizeTime('7.05'), '');
+  });
+});
@@ -0,0 +1,96 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { User } from 'homebridge/lib/user';
+import { AnnouncementManager } from '../src/announcements';
+import { MediaServer } from '../src/mediaServer';
+import { SoundTouchPlatform } from '../src/platform';
+import { SoundTouchAccessory } from '../src/soundtouchAccessory';
+import { SoundTouchSimulator } from './soundtouchSimulator';
+import { TestLogger, createLogger } from './testLogger';
+
+const HOST = '127.0.0.13';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function until(condition: () => boolean, timeout = 2000): Promise<void> {
+  for (const end = Date.now() + timeout; !condition(); await delay(10)) {
+    assert.ok(Date.now() < end, 'timed out');
+  }
+}
+
+describe('Announcements', () => {
+  const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'announcements-'));
+  let api: HomebridgeAPI;
+  let log: TestLogger;
+
+  before(() => {
+    User.setStoragePath(storagePath);
+  });
+
+  after(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    api = new HomebridgeAPI();
+    log = createLogger();
+  });
+
+  it('keys the switches on the announcement name', () => {
+    const accessory = new api.platformAccessory('Durchsagen', api.hap.uuid.generate('announcements'));
+    const platform = {
+      log,
+      config: {
+        announcements: [
+          { name: 'Washing machine', file: 'http://127.0.0.1/done.mp3' },
+          { name: 'Türklingel', file: 'http://127.0.0.1/ding.mp3' },
+          { name: 'Türklingel', file: 'http://127.0.0.1/dong.mp3' },
+        ],
+      },
+      Service: api.hap.Service,
+      Characteristic: api.hap.Characteristic,
+      getVirtualAccessory: () => accessory,
+    } as unknown as SoundTouchPlatform;
+
+    new AnnouncementManager(platform, {} as MediaServer).setup();
+    assert.deepEqual(accessory.services.filter(s => s.UUID === api.hap.Service.Switch.UUID).map(s => s.subtype), [
+      'announcement-washing-machine', 'announcement-türklingel', 'announcement-türklingel-3',
+    ]);
+  });
+
+  describe('on a speaker in standby', () => {
+    let simulator: SoundTouchSimulator;
+    let speaker: SoundTouchAccessory;
+
+    beforeEach(async () => {
+      simulator = new SoundTouchSimulator({ host: HOST, name: 'Kitchen' });
+      await simulator.start();
+      const platform = new SoundTouchPlatform(log, { platform: 'BoseSoundTouch' }, api);
+      const accessory = new api.platformAccessory('Kitchen', api.hap.uuid.generate(HOST));
+      speaker = new SoundTouchAccessory(platform, accessory, { host: HOST, name: 'Kitchen' });
+      await until(() => log.messages.includes(`info Initialized Kitchen (${HOST})`));
+    });
+
+    afterEach(async () => {
+      speaker.destroy();
+      await simulator.stop();
+    });
+
+    it('powers the speaker on before playing and off again afterwards', async () => {
+      const announced = speaker.announce('http://127.0.0.1/ding.mp3', 'Türklingel', 40, 2000);
+      await until(() => simulator.state.transportUri === 'http://127.0.0.1/ding.mp3');
+      simulator.finishTrack();
+      await announced;
+
+      const requests = simulator.requests.map(r => r.soapAction?.split('#')[1] || `${r.method} ${r.path}`);
+      const played = requests.indexOf('SetAVTransportURI');
+      assert.ok(played > 0);
+      assert.ok(requests.slice(0, played).includes('POST /key'), 'powered on before the clip');
+      assert.equal(simulator.state.powered, false);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandQueue } from '../src/commandQueue';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('CommandQueue', () => {
+  it('runs commands one at a time in order', async () => {
+    const queue = new CommandQueue();
+    const events: string[] = [];
+    const command = (name: string) => async () => {
+      events.push(`${name} start`);
+      await delay(10);
+      events.push(`${name} end`);
+      return name;
+    };
+    const results = await Promise.all([queue.enqueue(command('a')), queue.enqueue(command('b'))]);
+    assert.deepEqual(results, ['a', 'b']);
+    assert.deepEqual(events, ['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('sends only the last of waiting commands with the same key', async () => {
+    const queue = new CommandQueue();
+    const sent: number[] = [];
+    const setVolume = (volume: number) => queue.enqueue(async () => {
+      await delay(10);
+      sent.push(volume);
+      return volume;
+    }, 'volume');
+
+    // The first one is running already when the others arrive
+    const results = await Promise.all([10, 20, 30, 40].map(setVolume));
+    assert.deepEqual(sent, [10, 40]);
+    assert.deepEqual(results, [10, 40, 40, 40]);
+  });
+
+  it('does not coalesce commands without or with other keys', async () => {
+    const queue = new CommandQueue();
+    const sent: string[] = [];
+    const command = (name: string, key?: string) => queue.enqueue(async () => {
+      sent.push(name);
+    }, key);
+    await Promise.all([command('hold'), command('a'), command('b'), command('bass', 'bass'), command('volume', 'volume')]);
+    assert.deepEqual(sent, ['hold', 'a', 'b', 'bass', 'volume']);
+  });
+
+  it('rejects every waiter of a failed command and goes on', async () => {
+    const queue = new CommandQueue();
+    const failing = () => queue.enqueue(async () => {
+      throw new Error('offline');
+    }, 'volume');
+    const hold = queue.enqueue(() => delay(10));
+    const results = await Promise.allSettled([failing(), failing(), queue.enqueue(async () => 'next')]);
+    await hold;
+    assert.deepEqual(results.map(r => r.status), ['rejected', 'rejected', 'fulfilled']);
+  });
+
+  it('rejects waiting commands on clear', async () => {
+    const queue = new CommandQueue();
+    const running = queue.enqueue(() => delay(10));
+    const waiting = queue.enqueue(async () => 'never');
+    queue.clear(new Error('destroyed'));
+    await assert.rejects(waiting, /destroyed/);
+    await running;
+    assert.equal(queue.size, 0);
+  });
+});
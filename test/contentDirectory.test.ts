@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { audioUrl, parseDidl } from '../src/contentDirectory';
+
+const DIDL = `<DIDL-Lite xmlns="urn:schemas-upnp-org:metadata-1-0/DIDL-Lite/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:upnp="urn:schemas-upnp-org:metadata-1-0/upnp/">
+  <container id="21" parentID="2" childCount="12">
+    <dc:title>Abbey Road</dc:title>
+    <upnp:class>object.container.album.musicAlbum</upnp:class>
+    <upnp:albumArtURI>http://nas:50002/art/21.jpg</upnp:albumArtURI>
+  </container>
+  <item id="21$1" parentID="21">
+    <dc:title>Come Together</dc:title>
+    <dc:creator>The Beatles</dc:creator>
+    <upnp:album>Abbey Road</upnp:album>
+    <upnp:originalTrackNumber>1</upnp:originalTrackNumber>
+    <upnp:class>object.item.audioItem.musicTrack</upnp:class>
+    <res protocolInfo="http-get:*:audio/flac:*" duration="0:04:20.000">http://nas:50002/m/1.flac</res>
+    <res protocolInfo="http-get:*:audio/mpeg:*">http://nas:50002/m/1.mp3</res>
+  </item>
+  <item id="21$2" parentID="21">
+    <dc:title>Cover</dc:title>
+    <upnp:class>object.item.imageItem.photo</upnp:class>
+    <res protocolInfo="http-get:*:image/jpeg:*">http://nas:50002/art/21.jpg</res>
+  </item>
+</DIDL-Lite>`;
+
+describe('parseDidl', () => {
+  it('reads containers and items with their metadata', async () => {
+    const [album, track, cover] = await parseDidl(DIDL);
+    assert.equal(album.kind, 'container');
+    assert.equal(album.id, '21');
+    assert.equal(album.title, 'Abbey Road');
+    assert.equal(album.albumArtUrl, 'http://nas:50002/art/21.jpg');
+
+    assert.equal(track.kind, 'item');
+    assert.equal(track.parentId, '21');
+    assert.equal(track.artist, 'The Beatles');
+    assert.equal(track.album, 'Abbey Road');
+    assert.equal(track.trackNumber, 1);
+    assert.deepEqual(track.resources[0], { url: 'http://nas:50002/m/1.flac', mimeType: 'audio/flac', duration: 260 });
+    assert.equal(track.resources[1].duration, undefined);
+
+    assert.equal(cover.upnpClass, 'object.item.imageItem.photo');
+  });
+
+  it('returns nothing for anything but DIDL-Lite', async () => {
+    assert.deepEqual(await parseDidl('<Result/>'), []);
+  });
+});
+
+describe('audioUrl', () => {
+  it('picks the first HTTP audio resource of a track', async () => {
+    const [album, track, cover] = await parseDidl(DIDL);
+    assert.equal(audioUrl(track), 'http://nas:50002/m/1.flac');
+    assert.equal(audioUrl(album), undefined);
+    assert.equal(audioUrl(cover), undefined);
+  });
+
+  it('falls back to the file extension without a MIME type', () => {
+    const item = { kind: 'item' as const, id: '1', parentId: '0', title: '', upnpClass: '', resources: [
+      { url: 'rtsp://nas/1.mp3', mimeType: '' },
+      { url: 'http://nas/1.jpg', mimeType: '' },
+      { url: 'http://nas/1.mp3?x=1', mimeType: '' },
+    ] };
+    assert.equal(audioUrl(item), 'http://nas/1.mp3?x=1');
+  });
+});
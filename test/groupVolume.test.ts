@@ -0,0 +1,100 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GroupVolume } from '../src/groupVolume';
+import { SoundTouchAccessory } from '../src/soundtouchAccessory';
+import { TestLogger, createLogger } from './testLogger';
+
+// Only what the group volume asks a speaker
+class Speaker {
+  offline = false;
+  constructor(public name: string, public volume: number) {}
+  getVolume = () => this.volume;
+  getAccessoryName = () => this.name;
+}
+
+const speakers = (...list: Speaker[]) => list as unknown as SoundTouchAccessory[];
+
+describe('GroupVolume', () => {
+  let log: TestLogger;
+  let groupVolume: GroupVolume;
+  let kitchen: Speaker;
+  let bath: Speaker;
+
+  // Like the accessory: the speaker reports the volume it was sent
+  const set = (volume: number, ...members: Speaker[]) => groupVolume.set(volume, speakers(...members), async (speaker, target) => {
+    const member = speaker as unknown as Speaker;
+    if (member.offline) {
+      throw new Error('connect ECONNREFUSED');
+    }
+    member.volume = target;
+  });
+
+  beforeEach(() => {
+    log = createLogger();
+    groupVolume = new GroupVolume(log, 'Party mode');
+    kitchen = new Speaker('Kitchen', 40);
+    bath = new Speaker('Bath', 20);
+  });
+
+  it('starts at the loudest member and scales the others relative to it', async () => {
+    assert.equal(groupVolume.get(speakers(kitchen, bath)), 40);
+    await set(20, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [20, 10]);
+    await set(100, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [100, 50]);
+    assert.equal(groupVolume.get(speakers(kitchen, bath)), 100);
+  });
+
+  it('keeps the ratios through rounding and 0', async () => {
+    bath.volume = 15;
+    await set(3, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [3, 1]);
+    await set(0, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [0, 0]);
+    await set(80, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [80, 30]);
+  });
+
+  it('takes the level of a member changed on the speaker itself', async () => {
+    await set(40, kitchen, bath);
+    bath.volume = 30;
+    // Not the group volume set anymore: the loudest member
+    assert.equal(groupVolume.get(speakers(kitchen, bath)), 40);
+    await set(20, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [20, 15]);
+  });
+
+  it('scales a member that joined relative to the current volume', async () => {
+    await set(20, kitchen, bath);
+    const office = new Speaker('Office', 20);
+    await set(40, kitchen, bath, office);
+    assert.deepEqual([kitchen.volume, bath.volume, office.volume], [40, 20, 40]);
+  });
+
+  it('sets every member to the new level when all were silent', async () => {
+    kitchen.volume = bath.volume = 0;
+    await set(25, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [25, 25]);
+  });
+
+  it('logs a member that fails and sets the others', async () => {
+    bath.offline = true;
+    await set(20, kitchen, bath);
+    assert.equal(kitchen.volume, 20);
+    assert.deepEqual(log.messages, ['warn Party mode: volume of Bath failed: connect ECONNREFUSED']);
+
+    // Back online: its own level counts again
+    bath.offline = false;
+    await set(40, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [40, 40]);
+  });
+
+  it('takes the levels again after a reset', async () => {
+    await set(20, kitchen, bath);
+    kitchen.volume = 50;
+    groupVolume.reset();
+    assert.equal(groupVolume.get(speakers(kitchen, bath)), 50);
+    await set(100, kitchen, bath);
+    assert.deepEqual([kitchen.volume, bath.volume], [100, 20]);
+  });
+});
@@ -0,0 +1,130 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { MediaServer } from '../src/mediaServer';
+import { TestLogger, createLogger } from './testLogger';
+
+const PORT = 18195;
+const AUDIO = Buffer.from(Array.from({ length: 1000 }, (_, i) => i % 256));
+
+function get(urlPath: string, headers: http.OutgoingHttpHeaders = {}, method = 'GET') {
+  return new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: Buffer }>((resolve, reject) => {
+    http.request({ host: '127.0.0.1', port: PORT, path: urlPath, method, headers }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('error', reject);
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: Buffer.concat(chunks) }));
+    }).on('error', reject).end();
+  });
+}
+
+describe('MediaServer', () => {
+  let root: string;
+  let server: MediaServer;
+  let log: TestLogger;
+
+  before(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'media-server-'));
+    fs.mkdirSync(path.join(root, 'music', 'Album', 'CD 2'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'music', 'Album', '10 Ten.mp3'), AUDIO);
+    fs.writeFileSync(path.join(root, 'music', 'Album', '2 Two.flac'), AUDIO);
+    fs.writeFileSync(path.join(root, 'music', 'Album', 'CD 2', '1 One.mp3'), AUDIO);
+    fs.writeFileSync(path.join(root, 'music', 'Album', 'cover.jpg'), 'jpeg');
+    fs.writeFileSync(path.join(root, 'music', 'Album', '.hidden.mp3'), AUDIO);
+    fs.writeFileSync(path.join(root, 'secret.mp3'), 'secret');
+    fs.writeFileSync(path.join(root, 'chime.mp3'), AUDIO);
+
+    log = createLogger();
+    server = new MediaServer(log, PORT, '127.0.0.1', path.join(root, 'music'));
+    await server.start();
+  });
+
+  after(() => {
+    server.stop();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('lists the audio files of a folder in playback order', async () => {
+    assert.deepEqual(await server.listTracks('/Album'), [
+      { path: '/music/Album/2%20Two.flac', title: '2 Two' },
+      { path: '/music/Album/10%20Ten.mp3', title: '10 Ten' },
+      { path: '/music/Album/CD%202/1%20One.mp3', title: '1 One' },
+    ]);
+    assert.equal(server.getUrl('/music/Album/2%20Two.flac', '10.0.0.5'), `http://127.0.0.1:${PORT}/music/Album/2%20Two.flac`);
+  });
+
+  it('refuses folders outside the music directory', async () => {
+    await assert.rejects(server.listTracks('../'), /not inside the music directory/);
+    await assert.rejects(server.listTracks('Album/../../'), /not inside the music directory/);
+  });
+
+  it('serves audio files of the music directory only', async () => {
+    const track = await get('/music/Album/10%20Ten.mp3');
+    assert.equal(track.status, 200);
+    assert.equal(track.headers['content-type'], 'audio/mpeg');
+    assert.equal(track.headers['accept-ranges'], 'bytes');
+    assert.deepEqual(track.body, AUDIO);
+
+    assert.equal((await get('/music/Album/cover.jpg')).status, 404);
+    assert.equal((await get('/music/Album/missing.mp3')).status, 404);
+    assert.equal((await get('/music/..%2Fsecret.mp3')).status, 404);
+    assert.equal((await get('/music/Album/%2E%2E/%2E%2E/secret.mp3')).status, 404);
+    assert.equal((await get('/music/%E0%A4%A')).status, 404);
+    assert.equal((await get('/music/Album/10%20Ten.mp3', {}, 'POST')).status, 405);
+  });
+
+  it('serves added files', async () => {
+    const urlPath = server.addFile(path.join(root, 'chime.mp3'));
+    assert.match(urlPath, /^\/files\/[0-9a-f]{12}\/chime\.mp3$/);
+    assert.deepEqual((await get(urlPath)).body, AUDIO);
+    assert.equal((await get('/files/000000000000/chime.mp3')).status, 404);
+  });
+
+  it('answers range requests', async () => {
+    const middle = await get('/music/Album/10%20Ten.mp3', { Range: 'bytes=100-199' });
+    assert.equal(middle.status, 206);
+    assert.equal(middle.headers['content-range'], 'bytes 100-199/1000');
+    assert.equal(middle.headers['content-length'], '100');
+    assert.deepEqual(middle.body, AUDIO.subarray(100, 200));
+
+    const rest = await get('/music/Album/10%20Ten.mp3', { Range: 'bytes=900-' });
+    assert.equal(rest.headers['content-range'], 'bytes 900-999/1000');
+    assert.deepEqual(rest.body, AUDIO.subarray(900));
+
+    const suffix = await get('/music/Album/10%20Ten.mp3', { Range: 'bytes=-10' });
+    assert.equal(suffix.headers['content-range'], 'bytes 990-999/1000');
+
+    const tooLong = await get('/music/Album/10%20Ten.mp3', { Range: 'bytes=990-5000' });
+    assert.equal(tooLong.headers['content-range'], 'bytes 990-999/1000');
+
+    const beyond = await get('/music/Album/10%20Ten.mp3', { Range: 'bytes=1000-' });
+    assert.equal(beyond.status, 416);
+    assert.equal(beyond.headers['content-range'], 'bytes */1000');
+
+    // Several ranges are not supported: the whole file
+    const multiple = await get('/music/Album/10%20Ten.mp3', { Range: 'bytes=0-1,5-6' });
+    assert.equal(multiple.status, 200);
+    assert.equal(multiple.body.length, 1000);
+  });
+
+  it('cuts the response off when the file cannot be read', async (t) => {
+    t.mock.method(fs, 'createReadStream', () => {
+      const stream = new PassThrough();
+      process.nextTick(() => stream.destroy(new Error('EIO: i/o error, read')));
+      return stream;
+    });
+    await assert.rejects(get('/music/Album/10%20Ten.mp3'));
+    assert.ok(log.messages.some(m => m.startsWith('warn Media server: cannot read') && m.endsWith('10 Ten.mp3: EIO: i/o error, read')));
+  });
+
+  it('answers HEAD without a body', async () => {
+    const head = await get('/music/Album/10%20Ten.mp3', { Range: 'bytes=0-9' }, 'HEAD');
+    assert.equal(head.status, 206);
+    assert.equal(head.headers['content-length'], '10');
+    assert.equal(head.body.length, 0);
+  });
+});
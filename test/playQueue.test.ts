@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PlayQueue, QueueTrack, orderTracks } from '../src/playQueue';
+
+const tracks = (count: number): QueueTrack[] =>
+  Array.from({ length: count }, (_, i) => ({ url: `http://nas/${i + 1}.mp3`, title: `Track ${i + 1}` }));
+
+describe('PlayQueue', () => {
+  it('plays the tracks in order and stops at the end', () => {
+    const queue = new PlayQueue();
+    queue.set(tracks(3));
+    assert.equal(queue.current()?.title, 'Track 1');
+    assert.equal(queue.peekNext()?.title, 'Track 2');
+    assert.equal(queue.next(true)?.title, 'Track 2');
+    assert.equal(queue.next(true)?.title, 'Track 3');
+    assert.equal(queue.peekNext(), undefined);
+    assert.equal(queue.next(true), undefined);
+    assert.equal(queue.index, 2);
+  });
+
+  it('repeats the current track with repeat one, unless skipped', () => {
+    const queue = new PlayQueue();
+    queue.set(tracks(3));
+    queue.setRepeat('one');
+    assert.equal(queue.peekNext()?.title, 'Track 1');
+    assert.equal(queue.next(true)?.title, 'Track 1');
+    assert.equal(queue.next()?.title, 'Track 2');
+  });
+
+  it('wraps around with repeat all', () => {
+    const queue = new PlayQueue();
+    queue.set(tracks(2), 1);
+    queue.setRepeat('all');
+    assert.equal(queue.peekNext()?.title, 'Track 1');
+    assert.equal(queue.next(true)?.title, 'Track 1');
+    assert.equal(queue.previous()?.title, 'Track 2');
+  });
+
+  it('keeps the current track first when shuffling and returns to it when unshuffling', () => {
+    const queue = new PlayQueue();
+    queue.set(tracks(10), 4);
+    queue.setShuffle(true);
+    assert.equal(queue.index, 0);
+    assert.equal(queue.current()?.title, 'Track 5');
+
+    const played = [queue.current()!.title];
+    for (let track = queue.next(true); track; track = queue.next(true)) {
+      played.push(track.title);
+    }
+    assert.deepEqual([...played].sort(), tracks(10).map(t => t.title).sort());
+
+    queue.setShuffle(false);
+    assert.equal(queue.current()?.title, played[played.length - 1]);
+  });
+
+  it('jumps to a track of the original list', () => {
+    const queue = new PlayQueue();
+    queue.set(tracks(5));
+    queue.setShuffle(true);
+    assert.equal(queue.jumpTo(3)?.title, 'Track 4');
+    assert.equal(queue.jumpTo(9), undefined);
+  });
+
+  it('restores queue, position, shuffle and repeat from the state file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'play-queue-'));
+    try {
+      const statePath = path.join(dir, 'queue.json');
+      const queue = new PlayQueue(undefined, statePath);
+      queue.set(tracks(4));
+      queue.next();
+      queue.setRepeat('all');
+
+      const restored = new PlayQueue(undefined, statePath);
+      assert.equal(restored.length, 4);
+      assert.equal(restored.current()?.title, 'Track 2');
+      assert.equal(restored.repeat, 'all');
+      assert.equal(restored.shuffle, false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('orderTracks', () => {
+  const unordered = [{ title: 'Track 10' }, { title: 'track 2' }, { title: 'Track 1' }];
+
+  it('keeps the found order by default', () => {
+    assert.deepEqual(orderTracks(unordered), unordered);
+  });
+
+  it('sorts by title, numbers by value and ignoring case', () => {
+    assert.deepEqual(orderTracks(unordered, 'title').map(t => t.title), ['Track 1', 'track 2', 'Track 10']);
+  });
+
+  it('limits the number of tracks', () => {
+    assert.equal(orderTracks(unordered, 'random', 2).length, 2);
+    assert.equal(orderTracks(unordered, 'track', 0).length, 3);
+  });
+});
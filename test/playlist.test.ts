@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SoundTouchClient } from '../src/soundtouchClient';
+import { QueueTrack } from '../src/playQueue';
+import { SoundTouchSimulator } from './soundtouchSimulator';
+
+const ALBUM: QueueTrack[] = [1, 2, 3].map(i => ({ url: `http://127.0.0.1:8095/album/${i}.mp3`, title: `Track ${i}` }));
+
+// Playing a track list on the simulated renderer, the way the accessory drives it:
+// advancePlaylist after every play state update
+for (const gapless of [true, false]) {
+  describe(`playlist (${gapless ? 'gapless' : 'renderer without SetNextAVTransportURI'})`, () => {
+    let speaker: SoundTouchSimulator;
+    let client: SoundTouchClient;
+
+    beforeEach(async () => {
+      speaker = new SoundTouchSimulator({ host: '127.0.0.2', gapless });
+      await speaker.start();
+      client = new SoundTouchClient(speaker.host, speaker.apiPort, 2000, { retries: 0 });
+    });
+
+    afterEach(async () => {
+      client.destroy();
+      await speaker.stop();
+    });
+
+    const playingUrl = () => speaker.state.transportUri?.split('/').pop();
+
+    it('plays the tracks one after another and ends with the last', async () => {
+      await client.playTracks(ALBUM);
+      assert.equal(playingUrl(), '1.mp3');
+      assert.equal(await client.advancePlaylist(), false);
+
+      speaker.finishTrack();
+      assert.equal(await client.advancePlaylist(), true);
+      assert.equal(playingUrl(), '2.mp3');
+      assert.deepEqual(client.getPlaylistInfo(), { index: 1, total: 3 });
+
+      // A second update for the same track changes nothing
+      assert.equal(await client.advancePlaylist(), false);
+      assert.equal(playingUrl(), '2.mp3');
+
+      speaker.finishTrack();
+      assert.equal(await client.advancePlaylist(), true);
+      assert.equal(playingUrl(), '3.mp3');
+      assert.equal(await client.advancePlaylist(), false); // Update for the start of the track
+
+      speaker.finishTrack();
+      assert.equal(await client.advancePlaylist(), false);
+      assert.equal(speaker.state.playStatus, 'STOP_STATE');
+      assert.deepEqual(client.getPlaylistInfo(), { index: 0, total: 0 });
+    });
+
+    it('does not move on when the user stops or pauses', async () => {
+      await client.playTracks(ALBUM);
+      await client.advancePlaylist();
+
+      await client.stop();
+      assert.equal(await client.advancePlaylist(), false);
+      assert.equal(playingUrl(), '1.mp3');
+      assert.deepEqual(client.getPlaylistInfo(), { index: 0, total: 3 });
+
+      await client.play();
+      await client.advancePlaylist();
+      await client.pause();
+      assert.equal(await client.advancePlaylist(), false);
+
+      // Playing again: the end of the track counts again
+      await client.play();
+      await client.advancePlaylist();
+      speaker.finishTrack();
+      assert.equal(await client.advancePlaylist(), true);
+      assert.equal(playingUrl(), '2.mp3');
+    });
+
+    it('does not move on when stopped on the speaker itself', async () => {
+      await client.playTracks(ALBUM);
+      await client.advancePlaylist();
+
+      speaker.pressHardwareKey('STOP');
+      client.markStoppedByUser(); // The accessory does this on the userActivityUpdate
+      assert.equal(await client.advancePlaylist(), false);
+      assert.deepEqual(client.getPlaylistInfo(), { index: 0, total: 3 });
+    });
+
+    it('only counts a stop after the track was seen playing', async () => {
+      await client.playTracks(ALBUM);
+      speaker.finishTrack();
+      if (!gapless) {
+        // The renderer stopped before advancePlaylist saw the track play: no track end
+        assert.equal(await client.advancePlaylist(), false);
+        assert.equal(playingUrl(), '1.mp3');
+      } else {
+        // The renderer moved on by itself
+        assert.equal(await client.advancePlaylist(), true);
+        assert.equal(playingUrl(), '2.mp3');
+      }
+    });
+
+    it('repeats the queue with repeat all', async () => {
+      await client.playTracks(ALBUM, undefined, 2);
+      await client.setQueueRepeat('all');
+      await client.advancePlaylist();
+      speaker.finishTrack();
+      assert.equal(await client.advancePlaylist(), true);
+      assert.equal(playingUrl(), '1.mp3');
+    });
+  });
+}
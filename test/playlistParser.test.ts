@@ -0,0 +1,94 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { isPlaylistUrl, resolvePlaylist } from '../src/playlistParser';
+
+// Path -> [content type, body]
+const FILES: Record<string, [string, string]> = {
+  '/radio.m3u': ['audio/x-mpegurl', '#EXTM3U\n#EXTINF:-1,Radio One\nhttp://radio.example/one\n\n#EXTINF:215,Song\nsong.mp3\n'],
+  '/radio.pls': ['text/plain', '[playlist]\nFile2=http://radio.example/b\nFile1=http://radio.example/a\nTitle1=A\nLength1=-1\n'],
+  '/wrong-type': ['text/html', '[playlist]\nFile1=http://radio.example/a\n'],
+  '/list.xspf': ['application/xspf+xml', '<?xml version="1.0"?><playlist version="1" xmlns="http://xspf.org/ns/0/"><trackList>'
+    + '<track><location>http://radio.example/x?a=1&amp;b=2</location><title>X</title><duration>90000</duration></track>'
+    + '</trackList></playlist>'],
+  '/list.asx': ['video/x-ms-asf', '<ASX version="3.0"><Entry><Title>Live</Title>'
+    + '<Ref href="http://radio.example/live"/><Ref href="http://backup.example/live"/></Entry></ASX>'],
+  '/nested.m3u': ['audio/x-mpegurl', 'radio.pls\nhttp://radio.example/direct\n'],
+  '/hls.m3u8': ['application/vnd.apple.mpegurl', '#EXTM3U\n#EXT-X-VERSION:3\n#EXTINF:10,\nsegment1.ts\n'],
+  '/stream': ['audio/mpeg', 'ID3'],
+  '/listen': ['audio/x-scpls; charset=utf-8', '[playlist]\nFile1=http://radio.example/a\n'],
+};
+
+describe('resolvePlaylist', () => {
+  let server: http.Server;
+  let base: string;
+  const requests: string[] = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      if (req.url === '/moved') {
+        res.writeHead(302, { Location: '/listen' }).end();
+        return;
+      }
+      const file = FILES[req.url || ''];
+      if (!file) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': file[0] }).end(file[1]);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('reads M3U with titles and durations, relative entries resolved', async () => {
+    assert.deepEqual(await resolvePlaylist(`${base}/radio.m3u`), [
+      { url: 'http://radio.example/one', title: 'Radio One', duration: undefined },
+      { url: `${base}/song.mp3`, title: 'Song', duration: 215 },
+    ]);
+  });
+
+  it('reads PLS in index order', async () => {
+    const entries = await resolvePlaylist(`${base}/radio.pls`);
+    assert.deepEqual(entries?.map(e => [e.url, e.title]), [['http://radio.example/a', 'A'], ['http://radio.example/b', '']]);
+  });
+
+  it('detects the format from the content', async () => {
+    assert.equal((await resolvePlaylist(`${base}/wrong-type`))?.[0].url, 'http://radio.example/a');
+  });
+
+  it('reads XSPF and ASX', async () => {
+    assert.deepEqual(await resolvePlaylist(`${base}/list.xspf`), [{ url: 'http://radio.example/x?a=1&b=2', title: 'X', duration: 90 }]);
+    const asx = await resolvePlaylist(`${base}/list.asx`);
+    assert.deepEqual(asx?.map(e => e.url), ['http://radio.example/live', 'http://backup.example/live']);
+  });
+
+  it('resolves playlists in playlists', async () => {
+    const entries = await resolvePlaylist(`${base}/nested.m3u`);
+    assert.deepEqual(entries?.map(e => e.url), ['http://radio.example/a', 'http://radio.example/b', 'http://radio.example/direct']);
+  });
+
+  it('rejects HLS and returns undefined for streams', async () => {
+    await assert.rejects(resolvePlaylist(`${base}/hls.m3u8`), /HLS/);
+    assert.equal(await resolvePlaylist(`${base}/stream`), undefined);
+  });
+
+  it('tells playlists from streams before reading them', async () => {
+    requests.length = 0;
+    assert.equal(await isPlaylistUrl(`${base}/radio.pls`), true);
+    assert.equal(requests.length, 0);
+
+    assert.equal(await isPlaylistUrl(`${base}/listen`), true);
+    assert.equal(await isPlaylistUrl(`${base}/moved`), true);
+    assert.equal(await isPlaylistUrl(`${base}/wrong-type`), true);
+    assert.equal(await isPlaylistUrl(`${base}/stream`), false);
+    assert.equal(await isPlaylistUrl(`${base}/missing`), false);
+    assert.ok(requests.every(r => r.startsWith('HEAD ')));
+  });
+});
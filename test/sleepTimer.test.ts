@@ -0,0 +1,101 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Service } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { User } from 'homebridge/lib/user';
+import { SoundTouchPlatform } from '../src/platform';
+import { SoundTouchAccessory } from '../src/soundtouchAccessory';
+import { SoundTouchClient } from '../src/soundtouchClient';
+import { SoundTouchSimulator } from './soundtouchSimulator';
+import { TestLogger, createLogger } from './testLogger';
+
+const HOST = '127.0.0.9';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function until(condition: () => boolean, timeout = 6000): Promise<void> {
+  for (const end = Date.now() + timeout; !condition(); await delay(10)) {
+    assert.ok(Date.now() < end, 'timed out');
+  }
+}
+
+describe('Sleep timer', () => {
+  const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sleep-timer-'));
+  let api: HomebridgeAPI;
+  let simulator: SoundTouchSimulator;
+  let client: SoundTouchClient;
+  let log: TestLogger;
+  let speaker: SoundTouchAccessory;
+  let valve: Service;
+
+  before(() => {
+    User.setStoragePath(storagePath);
+  });
+
+  after(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    simulator = new SoundTouchSimulator({ host: HOST, name: 'Bedroom' });
+    await simulator.start();
+    client = new SoundTouchClient(HOST, simulator.apiPort, 2000, { retries: 0 });
+    await client.powerOn();
+    await client.setVolume(30);
+
+    api = new HomebridgeAPI();
+    log = createLogger();
+    const platform = new SoundTouchPlatform(log, { platform: 'BoseSoundTouch' }, api);
+    const accessory = new api.platformAccessory('Bedroom', api.hap.uuid.generate(HOST));
+    // A fade over the last 3 seconds
+    speaker = new SoundTouchAccessory(platform, accessory, { host: HOST, name: 'Bedroom', sleepTimer: true, sleepTimerFade: 0.05 });
+    valve = accessory.getServiceById(api.hap.Service.Valve, 'sleep-timer')!;
+    await until(() => log.messages.includes(`info Initialized Bedroom (${HOST})`));
+  });
+
+  afterEach(async () => {
+    speaker.destroy();
+    client.destroy();
+    await simulator.stop();
+  });
+
+  function start(seconds: number): void {
+    valve.getCharacteristic(api.hap.Characteristic.SetDuration).setValue(seconds);
+    valve.getCharacteristic(api.hap.Characteristic.Active).setValue(api.hap.Characteristic.Active.ACTIVE);
+  }
+
+  it('fades out, powers off and puts the volume back', async () => {
+    const volumes: number[] = [];
+    start(4);
+    assert.equal(valve.getCharacteristic(api.hap.Characteristic.InUse).value, api.hap.Characteristic.InUse.IN_USE);
+
+    await until(() => {
+      if (simulator.state.powered && volumes[volumes.length - 1] !== simulator.state.volume) {
+        volumes.push(simulator.state.volume);
+      }
+      return !simulator.state.powered;
+    });
+    // Down in steps over the last 3 seconds, maybe to 0 right at the end
+    assert.deepEqual(volumes.slice(0, 3), [30, 20, 10]);
+    assert.ok(volumes.slice(3).every(volume => volume < 10), volumes.join(', '));
+    await until(() => log.messages.includes('info Bedroom sleep timer: Power OFF'));
+
+    await until(() => simulator.state.volume === 30);
+    assert.equal(valve.getCharacteristic(api.hap.Characteristic.Active).value, api.hap.Characteristic.Active.INACTIVE);
+  });
+
+  it('puts the volume back when the speaker is turned off during the fade', async () => {
+    // The fade takes the whole 2 seconds
+    start(2);
+    await until(() => simulator.state.volume === 15);
+
+    simulator.pressHardwareKey('POWER');
+    await until(() => log.messages.includes('info Bedroom sleep timer cancelled (powered off)'));
+    await until(() => simulator.state.volume === 30);
+    await delay(1500);
+    assert.equal(simulator.state.volume, 30);
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { SoundTouchClient } from '../src/soundtouchClient';
+import { SoundTouchWebSocket } from '../src/soundtouchWebSocket';
+import { SoundTouchSimulator } from './soundtouchSimulator';
+
+// A speaker as the accessory sees it: commands via HTTP, updates via WebSocket
+interface Speaker {
+  simulator: SoundTouchSimulator;
+  client: SoundTouchClient;
+  webSocket: SoundTouchWebSocket;
+}
+
+async function startSpeaker(host: string, deviceID: string): Promise<Speaker> {
+  const simulator = new SoundTouchSimulator({ host, deviceID, name: `Speaker ${host}` });
+  await simulator.start();
+  const client = new SoundTouchClient(host, simulator.apiPort, 2000);
+  const webSocket = new SoundTouchWebSocket(host, simulator.webSocketPort);
+  const connected = once(webSocket, 'connected');
+  webSocket.connect();
+  await connected;
+  return { simulator, client, webSocket };
+}
+
+async function stopSpeaker(speaker: Speaker): Promise<void> {
+  speaker.webSocket.disconnect();
+  await speaker.simulator.stop();
+}
+
+describe('SoundTouchClient against the simulator', () => {
+  let speaker: Speaker;
+
+  beforeEach(async () => {
+    speaker = await startSpeaker('127.0.0.3', 'A0F6FD000003');
+  });
+
+  afterEach(() => stopSpeaker(speaker));
+
+  it('powers on and off', async () => {
+    const { simulator, client } = speaker;
+    await client.powerOn();
+    assert.equal(simulator.state.powered, true);
+    assert.notEqual((await client.getNowPlaying()).source, 'STANDBY');
+
+    // Already on: no second POWER key, which would switch it off again
+    await client.powerOn();
+    assert.equal(simulator.state.powered, true);
+
+    await client.powerOff();
+    assert.equal(simulator.state.powered, false);
+    assert.equal((await client.getNowPlaying()).source, 'STANDBY');
+  });
+
+  it('sets volume and mute and reports them via WebSocket', async () => {
+    const { simulator, client, webSocket } = speaker;
+    const volumeUpdate = once(webSocket, 'volumeUpdated');
+    await client.setVolume(35);
+    assert.equal((await volumeUpdate)[0].actualvolume, 35);
+    assert.equal(simulator.state.volume, 35);
+    assert.equal((await client.getVolume()).actualvolume, 35);
+
+    const muteUpdate = once(webSocket, 'volumeUpdated');
+    await client.setMute(true);
+    assert.equal((await muteUpdate)[0].muteenabled, true);
+    await client.setMute(true);
+    assert.equal(simulator.state.muted, true);
+    await client.setMute(false);
+    assert.equal((await client.getVolume()).muteenabled, false);
+  });
+
+  it('stores and selects presets', async () => {
+    const { simulator, client, webSocket } = speaker;
+    await client.storePreset(2, { source: 'BLUETOOTH', location: '', name: 'Phone' });
+    const presets = await client.getPresets();
+    assert.deepEqual(presets.map(p => [p.id, p.contentItem.source, p.contentItem.name]), [[2, 'BLUETOOTH', 'Phone']]);
+
+    const selection = once(webSocket, 'nowSelectionUpdated');
+    await client.selectPreset(2);
+    assert.equal((await selection)[0].presetId, 2);
+    assert.equal(simulator.state.powered, true);
+    assert.equal((await client.getNowPlaying()).source, 'BLUETOOTH');
+  });
+
+  it('reports buttons pressed on the speaker', async () => {
+    const { simulator, client, webSocket } = speaker;
+    await client.storePreset(1, { source: 'AUX', location: '', sourceAccount: 'AUX', name: 'Record player' });
+
+    const selection = once(webSocket, 'nowSelectionUpdated');
+    const nowPlaying = once(webSocket, 'nowPlayingUpdated');
+    simulator.pressHardwareKey('PRESET_1');
+    assert.deepEqual((await selection)[0].presetId, 1);
+    assert.equal((await nowPlaying)[0].source, 'AUX');
+
+    const volume = once(webSocket, 'volumeUpdated');
+    simulator.pressHardwareKey('VOLUME_UP');
+    assert.equal((await volume)[0].actualvolume, 21);
+  });
+});
+
+describe('multi-room against the simulator', () => {
+  let master: Speaker;
+  let slave: Speaker;
+  let third: Speaker;
+  const member = (speaker: Speaker) => ({ ipaddress: speaker.simulator.host, macaddress: speaker.simulator.deviceID });
+
+  beforeEach(async () => {
+    master = await startSpeaker('127.0.0.4', 'A0F6FD000004');
+    slave = await startSpeaker('127.0.0.5', 'A0F6FD000005');
+    third = await startSpeaker('127.0.0.6', 'A0F6FD000006');
+  });
+
+  afterEach(async () => {
+    await Promise.all([master, slave, third].map(stopSpeaker));
+  });
+
+  it('creates a zone, adds and removes slaves', async () => {
+    await master.client.powerOn();
+    const masterMac = master.simulator.deviceID;
+
+    const masterUpdate = once(master.webSocket, 'zoneUpdated');
+    const slaveUpdate = once(slave.webSocket, 'zoneUpdated');
+    await master.client.createZone(masterMac, [member(slave)]);
+    assert.deepEqual((await masterUpdate)[0].members.map((m: { macaddress: string }) => m.macaddress),
+      [masterMac, slave.simulator.deviceID]);
+    assert.equal((await slaveUpdate)[0].master, masterMac);
+    // The slave plays what the master plays
+    assert.equal((await slave.client.getNowPlaying()).source, 'AUX');
+
+    const added = once(third.webSocket, 'zoneUpdated');
+    await master.client.addZoneSlave(masterMac, [member(third)]);
+    assert.equal((await added)[0].master, masterMac);
+    assert.equal((await master.client.getZone())?.members.length, 3);
+
+    const removed = once(slave.webSocket, 'zoneUpdated');
+    await master.client.removeZoneSlave(masterMac, [member(slave)]);
+    assert.equal((await removed)[0].master, undefined);
+    assert.equal(await slave.client.getZone(), null);
+    assert.deepEqual((await master.client.getZone())?.members.map(m => m.macaddress), [masterMac, third.simulator.deviceID]);
+
+    // The last slave leaving ends the zone
+    const dissolved = once(master.webSocket, 'zoneUpdated');
+    await master.client.removeZoneSlave(masterMac, [member(third)]);
+    assert.deepEqual((await dissolved)[0].members, []);
+    assert.equal(await master.client.getZone(), null);
+  });
+});
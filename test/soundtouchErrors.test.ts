@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DlnaSoapError, SoundTouchDeviceError, SoundTouchHttpError, SoundTouchNetworkError, SoundTouchTimeoutError,
+  describeError, parseDeviceError, parseSoapFault, toNetworkError,
+} from '../src/soundtouchErrors';
+
+const SOAP_FAULT = `<?xml version="1.0"?>
+<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/">
+  <s:Body><s:Fault>
+    <faultcode>s:Client</faultcode><faultstring>UPnPError</faultstring>
+    <detail><UPnPError xmlns="urn:schemas-upnp-org:control-1-0">
+      <errorCode>714</errorCode><errorDescription>Illegal MIME-type</errorDescription>
+    </UPnPError></detail>
+  </s:Fault></s:Body>
+</s:Envelope>`;
+
+describe('parseDeviceError', () => {
+  it('reads the <errors> payload of the speaker', async () => {
+    const error = await parseDeviceError('10.0.0.5', 500, '<?xml version="1.0" encoding="UTF-8" ?><errors deviceID="A0F6FD000001">'
+      + '<error value="1005" name="UNKNOWN_SOURCE_ERROR" severity="Unknown">Source is unavailable</error></errors>');
+    assert.ok(error instanceof SoundTouchDeviceError);
+    assert.equal(error.host, '10.0.0.5');
+    assert.equal(error.statusCode, 500);
+    assert.equal(error.deviceID, 'A0F6FD000001');
+    assert.equal(error.code, 1005);
+    assert.equal(error.errorName, 'UNKNOWN_SOURCE_ERROR');
+    assert.equal(error.message, 'Device rejected request: UNKNOWN_SOURCE_ERROR (1005) - Source is unavailable');
+    assert.equal(error.isSourceUnavailable, true);
+    assert.match(error.hint, /source is not available/);
+  });
+
+  it('keeps every error of the payload', async () => {
+    const error = await parseDeviceError('10.0.0.5', 400, '<errors><error value="1019" name="CLIENT_XML_ERROR"/>'
+      + '<error value="1010" name="INVALID_KEY">bad key</error></errors>');
+    assert.ok(error instanceof SoundTouchDeviceError);
+    assert.deepEqual(error.errors.map(e => [e.value, e.name]), [[1019, 'CLIENT_XML_ERROR'], [1010, 'INVALID_KEY']]);
+    assert.equal(error.isInvalidRequest, true);
+  });
+
+  it('falls back to a plain HTTP error without a payload', async () => {
+    const error = await parseDeviceError('10.0.0.5', 503, 'Service Unavailable');
+    assert.ok(error instanceof SoundTouchHttpError);
+    assert.ok(!(error instanceof SoundTouchDeviceError));
+    assert.equal(error.message, 'HTTP 503: Service Unavailable');
+  });
+});
+
+describe('parseSoapFault', () => {
+  it('reads the UPnP error of a SOAP fault', async () => {
+    const error = await parseSoapFault('10.0.0.5', 500, SOAP_FAULT);
+    assert.ok(error instanceof DlnaSoapError);
+    assert.equal(error.upnpErrorCode, 714);
+    assert.equal(error.upnpErrorDescription, 'Illegal MIME-type');
+    assert.equal(error.message, 'DLNA error 714: Illegal MIME-type');
+    assert.match(error.hint, /cannot open the stream/);
+  });
+
+  it('keeps the body of anything else', async () => {
+    const error = await parseSoapFault('10.0.0.5', 500, 'Internal Server Error');
+    assert.equal(error.upnpErrorCode, undefined);
+    assert.equal(error.message, 'DLNA error 500: Internal Server Error');
+  });
+});
+
+describe('toNetworkError', () => {
+  it('maps socket errors', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const error = toNetworkError('10.0.0.5', refused, 5000);
+    assert.ok(error instanceof SoundTouchNetworkError);
+    assert.equal(error.message, 'ECONNREFUSED: connect ECONNREFUSED');
+
+    const timeout = toNetworkError('10.0.0.5', Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' }), 5000);
+    assert.ok(timeout instanceof SoundTouchTimeoutError);
+    assert.equal(timeout.timeout, 5000);
+  });
+});
+
+describe('describeError', () => {
+  it('adds the hint to the message', () => {
+    assert.equal(describeError(new SoundTouchNetworkError('10.0.0.5', 'EHOSTUNREACH', 'no route')),
+      'EHOSTUNREACH: no route (the speaker is not reachable - check that it is powered and the IP address is correct)');
+    assert.equal(describeError(new SoundTouchHttpError('10.0.0.5', 404, 'Not Found')), 'HTTP 404: Not Found');
+    assert.equal(describeError(new Error('plain')), 'plain');
+    assert.equal(describeError('text'), 'text');
+  });
+});
@@ -0,0 +1,909 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import WebSocket, { WebSocketServer } from 'ws';
+import { parseStringPromise } from 'xml2js';
+
+// Simulated SoundTouch device for end-to-end testing without real hardware.
+// Serves the XML API (8090), the "gabbo" WebSocket (8080) and the DLNA
+// AVTransport endpoint (8091). Several simulators can run side by side on
+// different loopback addresses (127.0.0.2, 127.0.0.3, ...) to test multi-room.
+
+export interface SimulatedSource {
+  source: string;
+  sourceAccount?: string;
+  status: 'READY' | 'UNAVAILABLE';
+  isLocal: boolean;
+  multiroomAllowed: boolean;
+  displayName?: string;
+}
+
+export interface SimulatedContentItem {
+  source: string;
+  type?: string;
+  location?: string;
+  sourceAccount?: string;
+  isPresetable?: boolean;
+  name?: string;
+}
+
+export interface SimulatedMediaServer {
+  id: string;
+  ip: string;
+  mac?: string;
+  friendlyName?: string;
+  location?: string;         // Device description URL
+}
+
+export interface SimulatorOptions {
+  host?: string;             // Bind address (default: 127.0.0.1)
+  name?: string;
+  type?: string;
+  deviceID?: string;         // MAC address without separators
+  apiPort?: number;          // Default 8090
+  webSocketPort?: number;    // Default 8080
+  dlnaPort?: number;         // Default 8091
+  bassAvailable?: boolean;
+  bassMin?: number;
+  bassMax?: number;
+  sources?: SimulatedSource[];
+  mediaServers?: SimulatedMediaServer[];
+  trackDuration?: number;    // DLNA tracks end by themselves after this many ms (default: play forever)
+  gapless?: boolean;         // Renderer supports SetNextAVTransportURI (default: true)
+}
+
+export interface SimulatedGroup {
+  id: string;
+  name: string;
+  masterDeviceId: string;
+  roles: Array<{ deviceId: string; role: string; ipAddress: string }>;
+}
+
+export interface SimulatorState {
+  name: string;
+  powered: boolean;
+  contentItem: SimulatedContentItem;
+  track?: string;
+  artist?: string;
+  album?: string;
+  playStatus: 'PLAY_STATE' | 'PAUSE_STATE' | 'STOP_STATE' | 'BUFFERING_STATE';
+  volume: number;
+  muted: boolean;
+  bass: number;
+  presets: Map<number, SimulatedContentItem>;
+  zone: { master: string; members: Array<{ ipaddress: string; macaddress: string }> } | null;
+  group: SimulatedGroup | null; // Stereo pair, the same object on both speakers
+  transportUri?: string;
+  transportMetadata?: string;
+  nextTransportUri?: string;
+  nextTransportMetadata?: string;
+}
+
+export interface SimulatorRequest {
+  port: 'api' | 'dlna';
+  method: string;
+  path: string;
+  body: string;
+  soapAction?: string;
+}
+
+class SimulatorError extends Error {
+  constructor(
+    readonly code: number,
+    readonly errorName: string,
+    message: string,
+    readonly httpStatus = 500,
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_SOURCES: SimulatedSource[] = [
+  { source: 'AUX', sourceAccount: 'AUX', status: 'READY', isLocal: true, multiroomAllowed: true, displayName: 'AUX IN' },
+  { source: 'BLUETOOTH', status: 'READY', isLocal: true, multiroomAllowed: true },
+  { source: 'UPNP', sourceAccount: 'UPnPUserName', status: 'READY', isLocal: false, multiroomAllowed: true },
+  { source: 'STORED_MUSIC_MEDIA_RENDERER', sourceAccount: 'StoredMusicUserName', status: 'READY', isLocal: false, multiroomAllowed: true },
+  { source: 'NOTIFICATION', status: 'UNAVAILABLE', isLocal: false, multiroomAllowed: true },
+];
+
+const KEYS = new Set([
+  'PLAY', 'PAUSE', 'PLAY_PAUSE', 'STOP', 'PREV_TRACK', 'NEXT_TRACK',
+  'THUMBS_UP', 'THUMBS_DOWN', 'BOOKMARK', 'POWER', 'MUTE', 'VOLUME_UP', 'VOLUME_DOWN',
+  'PRESET_1', 'PRESET_2', 'PRESET_3', 'PRESET_4', 'PRESET_5', 'PRESET_6',
+  'AUX_INPUT', 'SHUFFLE_OFF', 'SHUFFLE_ON', 'REPEAT_OFF', 'REPEAT_ONE', 'REPEAT_ALL',
+  'ADD_FAVORITE', 'REMOVE_FAVORITE',
+]);
+
+function xmlEscape(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function attr(name: string, value: string | boolean | number | undefined): string {
+  return value === undefined ? '' : ` ${name}="${xmlEscape(String(value))}"`;
+}
+
+function text(tag: string, value: string | undefined): string {
+  return value === undefined ? '' : `<${tag}>${xmlEscape(value)}</${tag}>`;
+}
+
+// Seconds as H:MM:SS (UPnP time format)
+function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 3600)}:${String(Math.floor(total / 60) % 60).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => data += chunk);
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function listen(server: http.Server, port: number, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+}
+
+export class SoundTouchSimulator extends EventEmitter {
+  // Running simulators by host, so zone commands can reach the slave boxes
+  private static readonly running: Map<string, SoundTouchSimulator> = new Map();
+
+  readonly host: string;
+  readonly deviceID: string;
+  readonly type: string;
+  apiPort: number;
+  webSocketPort: number;
+  dlnaPort: number;
+
+  readonly state: SimulatorState;
+  // Set to false to simulate a half-open connection (socket stays up, no pongs)
+  respondToPings = true;
+  readonly requests: SimulatorRequest[] = [];
+  sources: SimulatedSource[];
+  mediaServers: SimulatedMediaServer[];
+  trackDuration?: number;
+  gapless: boolean;
+
+  private readonly bassAvailable: boolean;
+  private readonly bassMin: number;
+  private readonly bassMax: number;
+  private lastSource: SimulatedContentItem | null = null;
+  private apiServer: http.Server | null = null;
+  private dlnaServer: http.Server | null = null;
+  private wsHttpServer: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private trackTimer?: ReturnType<typeof setTimeout>;
+  private trackStartedAt = 0;
+
+  constructor(options: SimulatorOptions = {}) {
+    super();
+    this.host = options.host || '127.0.0.1';
+    this.deviceID = (options.deviceID || 'A0F6FD000001').toUpperCase();
+    this.type = options.type || 'SoundTouch 10';
+    this.apiPort = options.apiPort ?? 8090;
+    this.webSocketPort = options.webSocketPort ?? 8080;
+    this.dlnaPort = options.dlnaPort ?? 8091;
+    this.bassAvailable = options.bassAvailable ?? true;
+    this.bassMin = options.bassMin ?? -9;
+    this.bassMax = options.bassMax ?? 0;
+    this.sources = (options.sources || DEFAULT_SOURCES).map((s) => ({ ...s }));
+    this.mediaServers = options.mediaServers || [];
+    this.trackDuration = options.trackDuration;
+    this.gapless = options.gapless ?? true;
+    this.state = {
+      name: options.name || `SoundTouch ${this.host}`,
+      powered: false,
+      contentItem: { source: 'STANDBY', isPresetable: false },
+      playStatus: 'STOP_STATE',
+      volume: 20,
+      muted: false,
+      bass: this.bassMax,
+      presets: new Map(),
+      zone: null,
+      group: null,
+    };
+  }
+
+  async start(): Promise<void> {
+    this.apiServer = http.createServer((req, res) => this.handleApi(req, res));
+    this.dlnaServer = http.createServer((req, res) => this.handleDlna(req, res));
+    this.wsHttpServer = http.createServer((_req, res) => {
+      res.writeHead(426);
+      res.end();
+    });
+    this.wss = new WebSocketServer({
+      server: this.wsHttpServer,
+      autoPong: false,
+      handleProtocols: (protocols) => protocols.has('gabbo') ? 'gabbo' : false,
+    });
+    this.wss.on('connection', (ws) => {
+      ws.on('ping', (data) => {
+        if (this.respondToPings) {
+          ws.pong(data);
+        }
+      });
+      ws.send('<SoundTouchSdkInfo serverVersion="4" serverBuild="simulator" />');
+      this.emit('webSocketConnected', ws);
+    });
+
+    this.apiPort = await listen(this.apiServer, this.apiPort, this.host);
+    this.webSocketPort = await listen(this.wsHttpServer, this.webSocketPort, this.host);
+    this.dlnaPort = await listen(this.dlnaServer, this.dlnaPort, this.host);
+    SoundTouchSimulator.running.set(this.host, this);
+  }
+
+  async stop(): Promise<void> {
+    SoundTouchSimulator.running.delete(this.host);
+    this.clearTrackTimer();
+    for (const client of this.wss?.clients || []) {
+      client.terminate();
+    }
+    this.wss?.close();
+    this.wss = null;
+    const servers = [this.apiServer, this.dlnaServer, this.wsHttpServer];
+    this.apiServer = this.dlnaServer = this.wsHttpServer = null;
+    await Promise.all(servers.map((server) => new Promise<void>((resolve) => {
+      if (!server) {
+        resolve();
+        return;
+      }
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })));
+  }
+
+  // Test helpers
+
+  get webSocketClients(): number {
+    return this.wss?.clients.size || 0;
+  }
+
+  // Simulate a button press on the device itself (or its IR remote)
+  pressHardwareKey(key: string): void {
+    this.pushUpdate('<userActivityUpdate />');
+    this.applyKey(key);
+  }
+
+  // Simulate the end of the current DLNA track; a queued next track starts right away
+  finishTrack(): void {
+    if (!this.state.powered || this.state.contentItem.source !== 'UPNP') {
+      return;
+    }
+    if (this.state.nextTransportUri) {
+      this.playTransportUri(this.state.nextTransportUri, this.state.nextTransportMetadata || '');
+      return;
+    }
+    this.state.playStatus = 'STOP_STATE';
+    this.nowPlayingChanged();
+  }
+
+  // Change a source's availability, e.g. Bluetooth paired or AUX cable unplugged
+  setSourceStatus(source: string, status: SimulatedSource['status'], sourceAccount?: string): void {
+    const item = this.sources.find((s) => s.source === source && (!sourceAccount || s.sourceAccount === sourceAccount));
+    if (item) {
+      item.status = status;
+    } else {
+      this.sources.push({ source, sourceAccount, status, isLocal: false, multiroomAllowed: true });
+    }
+    this.pushUpdate('<sourcesUpdated />');
+  }
+
+  // Drop all WebSocket connections without a close handshake
+  dropWebSockets(): void {
+    for (const client of this.wss?.clients || []) {
+      client.terminate();
+    }
+  }
+
+  // Send a raw <updates> payload to every connected WebSocket client
+  pushUpdate(inner: string): void {
+    const message = `<updates deviceID="${this.deviceID}">${inner}</updates>`;
+    for (const client of this.wss?.clients || []) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    }
+  }
+
+  // HTTP handlers
+
+  private async handleApi(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await readBody(req);
+    const method = req.method || 'GET';
+    const path = (req.url || '/').split('?')[0];
+    this.requests.push({ port: 'api', method, path, body });
+
+    try {
+      const xml = method === 'POST'
+        ? await this.handlePost(path, body)
+        : this.handleGet(path);
+      res.writeHead(200, { 'Content-Type': 'text/xml' });
+      res.end(`<?xml version="1.0" encoding="UTF-8" ?>${xml}`);
+    } catch (error) {
+      const err = error instanceof SimulatorError
+        ? error
+        : new SimulatorError(1019, 'CLIENT_XML_ERROR', String(error instanceof Error ? error.message : error), 400);
+      res.writeHead(err.httpStatus, { 'Content-Type': 'text/xml' });
+      res.end('<?xml version="1.0" encoding="UTF-8" ?>'
+        + `<errors deviceID="${this.deviceID}">`
+        + `<error value="${err.code}" name="${err.errorName}" severity="Unknown">${xmlEscape(err.message)}</error>`
+        + '</errors>');
+    }
+  }
+
+  private handleGet(path: string): string {
+    switch (path) {
+      case '/info':
+        return this.infoXml();
+      case '/now_playing':
+        return this.nowPlayingXml();
+      case '/volume':
+        return this.volumeXml();
+      case '/bass':
+        this.requireBass();
+        return this.bassXml();
+      case '/bassCapabilities':
+        return `<bassCapabilities deviceID="${this.deviceID}">`
+          + `<bassAvailable>${this.bassAvailable}</bassAvailable>`
+          + `<bassMin>${this.bassMin}</bassMin><bassMax>${this.bassMax}</bassMax>`
+          + `<bassDefault>${this.bassMax}</bassDefault></bassCapabilities>`;
+      case '/presets':
+        return this.presetsXml();
+      case '/sources':
+        return this.sourcesXml();
+      case '/getZone':
+        return this.zoneXml();
+      case '/getGroup':
+        return this.groupXml();
+      case '/removeGroup':
+        this.setGroup(null);
+        return this.groupXml();
+      case '/name':
+        return text('name', this.state.name);
+      case '/listMediaServers':
+        return '<ListMediaServersResponse>'
+          + this.mediaServers.map((s) => '<media_server'
+            + attr('id', s.id) + attr('mac', s.mac || '') + attr('ip', s.ip)
+            + attr('manufacturer', 'Simulator') + attr('friendly_name', s.friendlyName || s.id)
+            + attr('location', s.location) + ' />').join('')
+          + '</ListMediaServersResponse>';
+      default:
+        throw new SimulatorError(404, 'HTTP_STATUS_NOT_FOUND', `Unknown path ${path}`, 404);
+    }
+  }
+
+  private async handlePost(path: string, body: string): Promise<string> {
+    const doc = await parseStringPromise(body, { explicitArray: false, ignoreAttrs: false });
+
+    switch (path) {
+      case '/key': {
+        const key = typeof doc.key === 'string' ? doc.key : doc.key?._;
+        if (!key || !KEYS.has(key)) {
+          throw new SimulatorError(1019, 'CLIENT_XML_ERROR', `Invalid key: ${key}`, 400);
+        }
+        if (doc.key?.$?.state === 'release') {
+          this.applyKey(key);
+        }
+        break;
+      }
+      case '/volume': {
+        const level = parseInt(typeof doc.volume === 'string' ? doc.volume : doc.volume?._, 10);
+        if (isNaN(level)) {
+          throw new SimulatorError(1019, 'CLIENT_XML_ERROR', 'Invalid volume', 400);
+        }
+        this.state.volume = Math.max(0, Math.min(100, level));
+        this.state.muted = false;
+        this.volumeChanged();
+        break;
+      }
+      case '/bass': {
+        this.requireBass();
+        const level = parseInt(typeof doc.bass === 'string' ? doc.bass : doc.bass?._, 10);
+        if (isNaN(level)) {
+          throw new SimulatorError(1019, 'CLIENT_XML_ERROR', 'Invalid bass', 400);
+        }
+        this.state.bass = Math.max(this.bassMin, Math.min(this.bassMax, level));
+        this.pushUpdate(`<bassUpdated>${this.bassXml()}</bassUpdated>`);
+        break;
+      }
+      case '/select':
+        this.select(this.parseContentItem(doc.ContentItem));
+        break;
+      case '/storePreset': {
+        const id = parseInt(doc.preset?.$?.id, 10);
+        if (!(id >= 1 && id <= 6) || !doc.preset.ContentItem) {
+          throw new SimulatorError(1019, 'CLIENT_XML_ERROR', 'Invalid preset', 400);
+        }
+        this.state.presets.set(id, this.parseContentItem(doc.preset.ContentItem));
+        this.pushUpdate(`<presetsUpdated>${this.presetsXml()}</presetsUpdated>`);
+        return this.presetsXml();
+      }
+      case '/removePreset': {
+        const id = parseInt(doc.preset?.$?.id, 10);
+        this.state.presets.delete(id);
+        this.pushUpdate(`<presetsUpdated>${this.presetsXml()}</presetsUpdated>`);
+        return this.presetsXml();
+      }
+      case '/setZone':
+        this.setZone(this.parseZoneMembers(doc.zone), false);
+        break;
+      case '/addZoneSlave':
+        this.setZone(this.parseZoneMembers(doc.zone), true);
+        break;
+      case '/removeZoneSlave':
+        this.removeZoneMembers(this.parseZoneMembers(doc.zone));
+        break;
+      case '/addGroup':
+      case '/updateGroup': {
+        if (this.type !== 'SoundTouch 10') {
+          throw new SimulatorError(1019, 'CLIENT_XML_ERROR', 'Stereo pairs need two SoundTouch 10', 400);
+        }
+        const roles = toArray(doc.group?.roles?.groupRole as Array<Record<string, string>>)
+          .map((r) => ({ deviceId: r.deviceId.toUpperCase(), role: r.role, ipAddress: r.ipAddress }));
+        if (roles.length !== 2 || !roles.some((r) => r.role === 'LEFT') || !roles.some((r) => r.role === 'RIGHT')) {
+          throw new SimulatorError(1019, 'CLIENT_XML_ERROR', 'A group needs a LEFT and a RIGHT speaker', 400);
+        }
+        if (path === '/updateGroup' && this.state.group?.id !== doc.group?.$?.id) {
+          throw new SimulatorError(1019, 'CLIENT_XML_ERROR', 'Unknown group', 400);
+        }
+        this.setGroup({
+          id: this.state.group?.id || String(Date.now()),
+          name: typeof doc.group.name === 'string' ? doc.group.name : '',
+          masterDeviceId: String(doc.group.masterDeviceId).toUpperCase(),
+          roles,
+        });
+        return this.groupXml();
+      }
+      case '/name':
+        this.state.name = typeof doc.name === 'string' ? doc.name : doc.name?._ || '';
+        this.pushUpdate(`<nameUpdated>${text('name', this.state.name)}</nameUpdated>`);
+        return this.infoXml();
+      default:
+        throw new SimulatorError(404, 'HTTP_STATUS_NOT_FOUND', `Unknown path ${path}`, 404);
+    }
+
+    return `<status>${path}</status>`;
+  }
+
+  private async handleDlna(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await readBody(req);
+    const soapAction = String(req.headers['soapaction'] || '').replace(/"/g, '');
+    const action = soapAction.split('#')[1] || '';
+    this.requests.push({ port: 'dlna', method: req.method || 'POST', path: req.url || '/', body, soapAction });
+
+    if (req.url !== '/AVTransport/Control') {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    const respond = (inner: string): void => {
+      res.writeHead(200, { 'Content-Type': 'text/xml; charset="utf-8"' });
+      res.end('<?xml version="1.0" encoding="utf-8"?>'
+        + '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" '
+        + 's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/"><s:Body>'
+        + `<u:${action}Response xmlns:u="urn:schemas-upnp-org:service:AVTransport:1">${inner}</u:${action}Response>`
+        + '</s:Body></s:Envelope>');
+    };
+
+    try {
+      const doc = await parseStringPromise(body, {
+        explicitArray: false, ignoreAttrs: true, tagNameProcessors: [(name) => name.replace(/^.*:/, '')],
+      });
+      const args = doc?.Envelope?.Body?.[action] || {};
+
+      switch (action) {
+        case 'SetAVTransportURI': {
+          const uri = String(args.CurrentURI || '').trim();
+          if (!/^http:\/\//i.test(uri)) {
+            throw new SimulatorError(716, 'Resource not found', 'Resource not found');
+          }
+          this.playTransportUri(uri, typeof args.CurrentURIMetaData === 'string' ? args.CurrentURIMetaData : '');
+          respond('');
+          return;
+        }
+        case 'SetNextAVTransportURI': {
+          if (!this.gapless) {
+            throw new SimulatorError(401, 'Invalid Action', 'Invalid Action');
+          }
+          const uri = String(args.NextURI || '').trim();
+          if (uri && !/^http:\/\//i.test(uri)) {
+            throw new SimulatorError(716, 'Resource not found', 'Resource not found');
+          }
+          this.state.nextTransportUri = uri || undefined;
+          this.state.nextTransportMetadata = typeof args.NextURIMetaData === 'string' ? args.NextURIMetaData : undefined;
+          respond('');
+          return;
+        }
+        case 'Play':
+          if (!this.state.transportUri) {
+            throw new SimulatorError(701, 'Transition not available', 'Transition not available');
+          }
+          this.state.playStatus = 'PLAY_STATE';
+          this.nowPlayingChanged();
+          respond('');
+          return;
+        case 'Pause':
+          this.state.playStatus = 'PAUSE_STATE';
+          this.nowPlayingChanged();
+          respond('');
+          return;
+        case 'Stop':
+          this.state.playStatus = 'STOP_STATE';
+          this.nowPlayingChanged();
+          respond('');
+          return;
+        case 'GetTransportInfo': {
+          const transportState = !this.state.transportUri ? 'NO_MEDIA_PRESENT'
+            : this.state.playStatus === 'PLAY_STATE' ? 'PLAYING'
+              : this.state.playStatus === 'PAUSE_STATE' ? 'PAUSED_PLAYBACK' : 'STOPPED';
+          respond(`<CurrentTransportState>${transportState}</CurrentTransportState>`
+            + '<CurrentTransportStatus>OK</CurrentTransportStatus><CurrentSpeed>1</CurrentSpeed>');
+          return;
+        }
+        case 'GetPositionInfo': {
+          const elapsed = this.state.transportUri ? Math.floor((Date.now() - this.trackStartedAt) / 1000) : 0;
+          respond('<Track>1</Track>'
+            + `<TrackDuration>${formatTime(this.trackDuration !== undefined ? this.trackDuration / 1000 : 0)}</TrackDuration>`
+            + `<TrackMetaData>${xmlEscape(this.state.transportMetadata || '')}</TrackMetaData>`
+            + `<TrackURI>${xmlEscape(this.state.transportUri || '')}</TrackURI>`
+            + `<RelTime>${formatTime(elapsed)}</RelTime><AbsTime>NOT_IMPLEMENTED</AbsTime>`
+            + '<RelCount>2147483647</RelCount><AbsCount>2147483647</AbsCount>');
+          return;
+        }
+        default:
+          throw new SimulatorError(401, 'Invalid Action', 'Invalid Action');
+      }
+    } catch (error) {
+      const err = error instanceof SimulatorError ? error : new SimulatorError(402, 'Invalid Args', 'Invalid Args');
+      res.writeHead(500, { 'Content-Type': 'text/xml; charset="utf-8"' });
+      res.end('<?xml version="1.0" encoding="utf-8"?>'
+        + '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" '
+        + 's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/"><s:Body><s:Fault>'
+        + '<faultcode>s:Client</faultcode><faultstring>UPnPError</faultstring><detail>'
+        + '<UPnPError xmlns="urn:schemas-upnp-org:control-1-0">'
+        + `<errorCode>${err.code}</errorCode><errorDescription>${xmlEscape(err.message)}</errorDescription>`
+        + '</UPnPError></detail></s:Fault></s:Body></s:Envelope>');
+    }
+  }
+
+  // State transitions
+
+  private applyKey(key: string): void {
+    const presetMatch = key.match(/^PRESET_([1-6])$/);
+    if (presetMatch) {
+      this.selectPreset(parseInt(presetMatch[1], 10));
+      return;
+    }
+
+    switch (key) {
+      case 'POWER':
+        if (this.state.powered) {
+          this.powerOff();
+        } else {
+          this.select(this.lastSource || { source: 'AUX', sourceAccount: 'AUX', isPresetable: false });
+        }
+        break;
+      case 'MUTE':
+        this.state.muted = !this.state.muted;
+        this.volumeChanged();
+        break;
+      case 'VOLUME_UP':
+      case 'VOLUME_DOWN':
+        this.state.volume = Math.max(0, Math.min(100, this.state.volume + (key === 'VOLUME_UP' ? 1 : -1)));
+        this.volumeChanged();
+        break;
+      case 'PLAY':
+      case 'PAUSE':
+      case 'PLAY_PAUSE':
+      case 'STOP':
+        if (!this.state.powered) {
+          return;
+        }
+        if (key === 'PLAY_PAUSE') {
+          this.state.playStatus = this.state.playStatus === 'PLAY_STATE' ? 'PAUSE_STATE' : 'PLAY_STATE';
+        } else {
+          this.state.playStatus = key === 'PLAY' ? 'PLAY_STATE' : key === 'PAUSE' ? 'PAUSE_STATE' : 'STOP_STATE';
+        }
+        this.nowPlayingChanged();
+        break;
+      case 'AUX_INPUT':
+        this.select({ source: 'AUX', sourceAccount: 'AUX', isPresetable: false });
+        break;
+      default:
+        // Remaining keys have no visible effect on the simulated state
+        break;
+    }
+  }
+
+  private selectPreset(id: number): void {
+    const preset = this.state.presets.get(id);
+    this.pushUpdate(`<nowSelectionUpdated><preset id="${id}">${preset ? this.contentItemXml(preset) : ''}</preset></nowSelectionUpdated>`);
+    if (preset) {
+      this.select(preset);
+    } else if (!this.state.powered) {
+      this.select(this.lastSource || { source: 'AUX', sourceAccount: 'AUX', isPresetable: false });
+    }
+  }
+
+  private select(item: SimulatedContentItem): void {
+    const source = this.sources.find((s) => s.source === item.source
+      && (!item.sourceAccount || !s.sourceAccount || s.sourceAccount === item.sourceAccount));
+    if (!source) {
+      throw new SimulatorError(1005, 'UNKNOWN_SOURCE_ERROR', `Unknown source ${item.source}`);
+    }
+    if (source.status !== 'READY') {
+      throw new SimulatorError(1005, 'UNKNOWN_SOURCE_ERROR', `Source ${item.source} is unavailable`);
+    }
+
+    this.state.powered = true;
+    this.state.contentItem = { ...item, sourceAccount: item.sourceAccount ?? source.sourceAccount };
+    this.state.track = item.name;
+    this.state.artist = undefined;
+    this.state.album = undefined;
+    this.state.playStatus = 'PLAY_STATE';
+    this.lastSource = this.state.contentItem;
+    if (item.source !== 'UPNP') {
+      this.state.transportUri = undefined;
+      this.state.transportMetadata = undefined;
+      this.state.nextTransportUri = undefined;
+    }
+    this.nowPlayingChanged();
+  }
+
+  private playTransportUri(uri: string, metadata: string): void {
+    const title = metadata.match(/<dc:title>([^<]*)<\/dc:title>/)?.[1];
+    this.state.transportUri = uri;
+    this.state.transportMetadata = metadata;
+    this.state.nextTransportUri = undefined;
+    this.state.nextTransportMetadata = undefined;
+    this.trackStartedAt = Date.now();
+    this.state.powered = true;
+    this.state.contentItem = {
+      source: 'UPNP', type: 'track', location: uri, sourceAccount: 'UPnPUserName', isPresetable: true, name: title,
+    };
+    this.state.track = title;
+    this.state.playStatus = 'PLAY_STATE';
+    this.lastSource = this.state.contentItem;
+    this.nowPlayingChanged();
+
+    this.clearTrackTimer();
+    if (this.trackDuration !== undefined) {
+      this.trackTimer = setTimeout(() => this.finishTrack(), this.trackDuration);
+    }
+  }
+
+  private clearTrackTimer(): void {
+    if (this.trackTimer) {
+      clearTimeout(this.trackTimer);
+      this.trackTimer = undefined;
+    }
+  }
+
+  private powerOff(): void {
+    this.clearTrackTimer();
+    this.state.powered = false;
+    this.state.contentItem = { source: 'STANDBY', isPresetable: false };
+    this.state.track = this.state.artist = this.state.album = undefined;
+    this.state.playStatus = 'STOP_STATE';
+    this.state.transportUri = undefined;
+    this.state.transportMetadata = undefined;
+    this.state.nextTransportUri = undefined;
+    if (this.state.zone) {
+      if (this.state.zone.master === this.deviceID) {
+        this.removeZoneMembers(this.state.zone.members.filter((m) => m.macaddress !== this.deviceID));
+      } else {
+        this.state.zone = null;
+        this.pushUpdate('<zoneUpdated><zone /></zoneUpdated>');
+      }
+    }
+    this.nowPlayingChanged();
+  }
+
+  private nowPlayingChanged(): void {
+    this.pushUpdate(`<nowPlayingUpdated>${this.nowPlayingXml()}</nowPlayingUpdated>`);
+    this.emit('nowPlayingChanged', this.state);
+
+    // Slaves follow the master's playback
+    if (this.state.zone?.master === this.deviceID) {
+      for (const slave of this.zoneSlaves()) {
+        slave.followMaster(this);
+      }
+    }
+  }
+
+  private followMaster(master: SoundTouchSimulator): void {
+    this.state.powered = master.state.powered;
+    this.state.contentItem = { ...master.state.contentItem };
+    this.state.track = master.state.track;
+    this.state.artist = master.state.artist;
+    this.state.album = master.state.album;
+    this.state.playStatus = master.state.playStatus;
+    this.pushUpdate(`<nowPlayingUpdated>${this.nowPlayingXml()}</nowPlayingUpdated>`);
+  }
+
+  private volumeChanged(): void {
+    this.pushUpdate(`<volumeUpdated>${this.volumeXml()}</volumeUpdated>`);
+  }
+
+  private requireBass(): void {
+    if (!this.bassAvailable) {
+      throw new SimulatorError(1018, 'BASS_NOT_SUPPORTED', 'Bass is not supported on this device');
+    }
+  }
+
+  // Multi-room
+
+  private zoneSlaves(): SoundTouchSimulator[] {
+    return (this.state.zone?.members || [])
+      .filter((m) => m.macaddress !== this.deviceID)
+      .map((m) => SoundTouchSimulator.running.get(m.ipaddress))
+      .filter((s): s is SoundTouchSimulator => s !== undefined);
+  }
+
+  private setZone(members: Array<{ ipaddress: string; macaddress: string }>, add: boolean): void {
+    const current = add && this.state.zone ? this.state.zone.members : [];
+    const merged = [{ ipaddress: this.host, macaddress: this.deviceID }, ...current, ...members];
+    const unique = merged.filter((m, i) => merged.findIndex((o) => o.macaddress === m.macaddress) === i);
+    this.state.zone = { master: this.deviceID, members: unique };
+
+    for (const slave of this.zoneSlaves()) {
+      slave.state.zone = { master: this.deviceID, members: unique.map((m) => ({ ...m })) };
+      slave.followMaster(this);
+      slave.pushUpdate(`<zoneUpdated>${slave.zoneXml()}</zoneUpdated>`);
+    }
+    this.pushUpdate(`<zoneUpdated>${this.zoneXml()}</zoneUpdated>`);
+  }
+
+  private removeZoneMembers(members: Array<{ ipaddress: string; macaddress: string }>): void {
+    if (!this.state.zone) {
+      return;
+    }
+    const removed = new Set(members.map((m) => m.macaddress.toUpperCase()));
+    for (const slave of this.zoneSlaves()) {
+      if (removed.has(slave.deviceID)) {
+        slave.state.zone = null;
+        slave.pushUpdate('<zoneUpdated><zone /></zoneUpdated>');
+        slave.powerOff();
+      }
+    }
+    const remaining = this.state.zone.members.filter((m) => !removed.has(m.macaddress.toUpperCase()));
+    this.state.zone = remaining.some((m) => m.macaddress !== this.deviceID)
+      ? { master: this.deviceID, members: remaining }
+      : null;
+    for (const slave of this.zoneSlaves()) {
+      slave.state.zone = this.state.zone && { master: this.deviceID, members: remaining.map((m) => ({ ...m })) };
+      slave.pushUpdate(`<zoneUpdated>${slave.zoneXml()}</zoneUpdated>`);
+    }
+    this.pushUpdate(`<zoneUpdated>${this.zoneXml()}</zoneUpdated>`);
+  }
+
+  // XML parsing and rendering
+
+  private parseContentItem(node: { $?: Record<string, string>; itemName?: string } | undefined): SimulatedContentItem {
+    if (!node?.$?.source) {
+      throw new SimulatorError(1019, 'CLIENT_XML_ERROR', 'Missing ContentItem source', 400);
+    }
+    return {
+      source: node.$.source,
+      type: node.$.type,
+      location: node.$.location,
+      sourceAccount: node.$.sourceAccount || undefined,
+      isPresetable: node.$.isPresetable !== 'false',
+      name: node.itemName,
+    };
+  }
+
+  private parseZoneMembers(zone: { member?: unknown } | undefined): Array<{ ipaddress: string; macaddress: string }> {
+    return toArray(zone?.member as Array<{ $: { ipaddress: string }; _: string }>)
+      .map((m) => ({ ipaddress: m.$.ipaddress, macaddress: m._.toUpperCase() }));
+  }
+
+  private contentItemXml(item: SimulatedContentItem): string {
+    return '<ContentItem' + attr('source', item.source) + attr('type', item.type) + attr('location', item.location)
+      + attr('sourceAccount', item.sourceAccount) + attr('isPresetable', item.isPresetable) + '>'
+      + text('itemName', item.name) + '</ContentItem>';
+  }
+
+  private infoXml(): string {
+    return `<info deviceID="${this.deviceID}">${text('name', this.state.name)}${text('type', this.type)}`
+      + '<components><component><componentCategory>SCM</componentCategory>'
+      + '<softwareVersion>27.0.6.46330.5043500 epdbuild.trunk.hepdswbld04.2022-08-04T11:20:29</softwareVersion>'
+      + '</component></components>'
+      + `<networkInfo type="SCM"><macAddress>${this.deviceID}</macAddress><ipAddress>${this.host}</ipAddress></networkInfo>`
+      + '</info>';
+  }
+
+  private nowPlayingXml(): string {
+    const s = this.state;
+    if (!s.powered) {
+      return `<nowPlaying deviceID="${this.deviceID}" source="STANDBY">`
+        + '<ContentItem source="STANDBY" isPresetable="false" /></nowPlaying>';
+    }
+    return `<nowPlaying deviceID="${this.deviceID}"` + attr('source', s.contentItem.source)
+      + attr('sourceAccount', s.contentItem.sourceAccount) + '>'
+      + this.contentItemXml(s.contentItem)
+      + text('track', s.track) + text('artist', s.artist) + text('album', s.album)
+      + text('stationName', s.contentItem.source === 'UPNP' ? undefined : s.contentItem.name)
+      + `<playStatus>${s.playStatus}</playStatus>`
+      + '<shuffleSetting>SHUFFLE_OFF</shuffleSetting><repeatSetting>REPEAT_OFF</repeatSetting>'
+      + '</nowPlaying>';
+  }
+
+  private volumeXml(): string {
+    return `<volume deviceID="${this.deviceID}"><targetvolume>${this.state.volume}</targetvolume>`
+      + `<actualvolume>${this.state.volume}</actualvolume><muteenabled>${this.state.muted}</muteenabled></volume>`;
+  }
+
+  private bassXml(): string {
+    return `<bass deviceID="${this.deviceID}"><targetbass>${this.state.bass}</targetbass>`
+      + `<actualbass>${this.state.bass}</actualbass></bass>`;
+  }
+
+  private presetsXml(): string {
+    const presets = [...this.state.presets.entries()].sort(([a], [b]) => a - b);
+    return '<presets>'
+      + presets.map(([id, item]) => `<preset id="${id}">${this.contentItemXml(item)}</preset>`).join('')
+      + '</presets>';
+  }
+
+  private sourcesXml(): string {
+    return `<sources deviceID="${this.deviceID}">`
+      + this.sources.map((s) => '<sourceItem' + attr('source', s.source) + attr('sourceAccount', s.sourceAccount)
+        + attr('status', s.status) + attr('isLocal', s.isLocal) + attr('multiroomallowed', s.multiroomAllowed) + '>'
+        + xmlEscape(s.displayName || '') + '</sourceItem>').join('')
+      + '</sources>';
+  }
+
+  // Both speakers of the pair (old and new) get the change
+  private setGroup(group: SimulatedGroup | null): void {
+    const hosts = new Set([...(this.state.group?.roles || []), ...(group?.roles || [])].map((r) => r.ipAddress));
+    hosts.add(this.host);
+    for (const host of hosts) {
+      const speaker = SoundTouchSimulator.running.get(host);
+      if (speaker) {
+        speaker.state.group = group;
+        speaker.pushUpdate(`<groupUpdated>${speaker.groupXml()}</groupUpdated>`);
+      }
+    }
+  }
+
+  private groupXml(): string {
+    const group = this.state.group;
+    if (!group) {
+      return '<group />';
+    }
+    return `<group id="${group.id}">${text('name', group.name)}${text('masterDeviceId', group.masterDeviceId)}<roles>`
+      + group.roles.map((r) => '<groupRole>' + text('deviceId', r.deviceId) + text('role', r.role)
+        + text('ipAddress', r.ipAddress) + '</groupRole>').join('')
+      + `</roles>${text('senderIPAddress', this.host)}<status>GROUP_OK</status></group>`;
+  }
+
+  private zoneXml(): string {
+    const zone = this.state.zone;
+    if (!zone) {
+      return '<zone />';
+    }
+    return `<zone master="${zone.master}" senderIPAddress="${this.host}" senderMACAddress="${this.deviceID}">`
+      + zone.members.map((m) => `<member ipaddress="${m.ipaddress}">${m.macaddress}</member>`).join('')
+      + '</zone>';
+  }
+}
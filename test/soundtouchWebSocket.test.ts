@@ -0,0 +1,80 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SoundTouchWebSocket } from '../src/soundtouchWebSocket';
+import { SoundTouchSimulator } from './soundtouchSimulator';
+
+// Unlike events.once, does not reject on the 'error' events a reconnect comes with
+const next = (webSocket: SoundTouchWebSocket, event: 'connected' | 'disconnected') =>
+  new Promise<void>(resolve => webSocket.once(event, () => resolve()));
+
+describe('SoundTouchWebSocket', () => {
+  let simulator: SoundTouchSimulator | undefined;
+  let webSocket: SoundTouchWebSocket | undefined;
+
+  afterEach(async () => {
+    webSocket?.disconnect();
+    await simulator?.stop();
+    webSocket = simulator = undefined;
+  });
+
+  it('backs off exponentially with jitter up to the cap', async () => {
+    // Nothing listens there
+    const failing = new SoundTouchWebSocket('127.0.0.7', 9, { reconnectDelay: 10, maxReconnectDelay: 40 });
+    webSocket = failing;
+    failing.on('error', () => undefined);
+    const delays = await new Promise<number[]>((resolve) => {
+      const seen: number[] = [];
+      failing.on('reconnecting', (_attempt, delay) => {
+        seen.push(delay);
+        if (seen.length === 5) {
+          resolve(seen);
+        }
+      });
+      failing.connect();
+    });
+
+    const bases = [10, 20, 40, 40, 40];
+    delays.forEach((delay, i) => {
+      assert.ok(delay >= bases[i] / 2 && delay <= bases[i], `attempt ${i + 1}: ${delay} ms`);
+    });
+    assert.equal(failing.getMetrics().attempts, 5);
+    assert.equal(failing.getMetrics().connected, false);
+  });
+
+  it('reconnects when the speaker stops answering pings', async () => {
+    simulator = new SoundTouchSimulator({ host: '127.0.0.7' });
+    await simulator.start();
+    webSocket = new SoundTouchWebSocket(simulator.host, simulator.webSocketPort, {
+      reconnectDelay: 10, pingInterval: 20, pongTimeout: 30,
+    });
+    const errors: string[] = [];
+    webSocket.on('error', (error) => errors.push(error.message));
+    webSocket.connect();
+    await next(webSocket, 'connected');
+
+    // Half-open connection: the socket stays up, but pongs are missing
+    simulator.respondToPings = false;
+    await next(webSocket, 'disconnected');
+    assert.match(errors[0], /No pong within 30ms/);
+
+    simulator.respondToPings = true;
+    await next(webSocket, 'connected');
+    assert.equal(webSocket.getMetrics().reconnects, 1);
+    assert.equal(webSocket.getMetrics().attempts, 0);
+  });
+
+  it('stays connected while pongs arrive', async () => {
+    simulator = new SoundTouchSimulator({ host: '127.0.0.7' });
+    await simulator.start();
+    webSocket = new SoundTouchWebSocket(simulator.host, simulator.webSocketPort, { pingInterval: 10, pongTimeout: 30 });
+    let disconnected = false;
+    webSocket.on('disconnected', () => {
+      disconnected = true;
+    });
+    webSocket.connect();
+    await next(webSocket, 'connected');
+    await new Promise(resolve => setTimeout(resolve, 150));
+    assert.equal(disconnected, false);
+    assert.equal(webSocket.isConnected, true);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SoundTouchClient } from '../src/soundtouchClient';
+import { StatePoller } from '../src/statePoller';
+import { SoundTouchSimulator } from './soundtouchSimulator';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function until(condition: () => boolean, timeout = 2000): Promise<void> {
+  for (const end = Date.now() + timeout; !condition(); await delay(10)) {
+    assert.ok(Date.now() < end, 'timed out');
+  }
+}
+
+describe('StatePoller', () => {
+  let simulator: SoundTouchSimulator;
+  let client: SoundTouchClient;
+  let poller: StatePoller;
+  let events: string[];
+
+  beforeEach(async () => {
+    simulator = new SoundTouchSimulator({ host: '127.0.0.8' });
+    await simulator.start();
+    client = new SoundTouchClient(simulator.host, simulator.apiPort, 2000, { retries: 0 });
+    poller = new StatePoller(client, 20);
+    events = [];
+    poller.on('nowPlayingUpdated', (data) => events.push(`nowPlaying ${data.source}`));
+    poller.on('volumeUpdated', (data) => events.push(`volume ${data.actualvolume}`));
+    poller.on('zoneUpdated', (data) => events.push(`zone ${data.members.length}`));
+    poller.on('error', () => events.push('error'));
+  });
+
+  afterEach(async () => {
+    poller.stop();
+    client.destroy();
+    await simulator.stop();
+  });
+
+  it('emits the state once and then only changes', async () => {
+    poller.start();
+    assert.equal(poller.isRunning, true);
+    await until(() => events.length >= 3);
+    await delay(60);
+    assert.deepEqual(events, ['nowPlaying STANDBY', 'volume 20', 'zone 0']);
+
+    await client.setVolume(30);
+    await until(() => events.length >= 4);
+    await delay(60);
+    assert.deepEqual(events.slice(3), ['volume 30']);
+  });
+
+  it('stops polling', async () => {
+    poller.start();
+    await until(() => events.length >= 3);
+    poller.stop();
+    assert.equal(poller.isRunning, false);
+    await client.setVolume(30);
+    await delay(50); // A poll still running at stop() finishes its requests
+    const count = simulator.requests.length;
+
+    await delay(100);
+    assert.equal(simulator.requests.length, count);
+    assert.ok(!events.includes('volume 30'));
+  });
+
+  it('drops the result of a poll still running when stopped', async () => {
+    poller.start();
+    poller.stop();
+    await delay(100);
+    assert.deepEqual(events, []);
+  });
+
+  it('reports the full state again after a restart', async () => {
+    poller.start();
+    await until(() => events.length >= 3);
+    poller.stop();
+    poller.start();
+    await until(() => events.length >= 6);
+    assert.deepEqual(events, ['nowPlaying STANDBY', 'volume 20', 'zone 0', 'nowPlaying STANDBY', 'volume 20', 'zone 0']);
+  });
+
+  it('keeps a restart from running two polls side by side', async () => {
+    poller.start();
+    poller.stop();
+    poller.start();
+    await delay(200);
+    const nowPlayingRequests = simulator.requests.filter(r => r.path === '/now_playing').length;
+    // One poll every 20 ms, with a second loop it would be twice as many
+    assert.ok(nowPlayingRequests <= 11, `${nowPlayingRequests} polls`);
+  });
+
+  it('reports errors while the speaker is unreachable', async () => {
+    await simulator.stop();
+    poller.start();
+    await until(() => events.includes('error'));
+    await simulator.start();
+  });
+});
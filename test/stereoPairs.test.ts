@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SoundTouchPlatform, StereoPairConfig } from '../src/platform';
+import { SoundTouchAccessory } from '../src/soundtouchAccessory';
+import { SoundTouchClient } from '../src/soundtouchClient';
+import { StereoPairManager } from '../src/stereoPairs';
+import { SoundTouchSimulator } from './soundtouchSimulator';
+import { TestLogger, createLogger } from './testLogger';
+
+const LEFT = '127.0.0.10';
+const RIGHT = '127.0.0.11';
+const RIGHT_NEW_IP = '127.0.0.12';
+const LEFT_MAC = 'A0F6FD00000A';
+const RIGHT_MAC = 'A0F6FD00000B';
+const PAIR: StereoPairConfig = { name: 'Living Room', left: 'Left', right: RIGHT };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function until(condition: () => boolean, timeout = 2000): Promise<void> {
+  for (const end = Date.now() + timeout; !condition(); await delay(10)) {
+    assert.ok(Date.now() < end, 'timed out');
+  }
+}
+
+describe('StereoPairManager', () => {
+  let storagePath: string;
+  let left: SoundTouchSimulator;
+  let right: SoundTouchSimulator;
+  let client: SoundTouchClient;
+  let log: TestLogger;
+  let config: { stereoPairs: StereoPairConfig[] };
+  let speaker: SoundTouchAccessory;
+  let platform: SoundTouchPlatform;
+
+  beforeEach(async () => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'stereo-pairs-'));
+    left = new SoundTouchSimulator({ host: LEFT, deviceID: LEFT_MAC, name: 'Left' });
+    right = new SoundTouchSimulator({ host: RIGHT, deviceID: RIGHT_MAC, name: 'Right' });
+    await Promise.all([left.start(), right.start()]);
+    client = new SoundTouchClient(LEFT, left.apiPort, 2000, { retries: 0 });
+    log = createLogger();
+    config = { stereoPairs: [PAIR] };
+
+    // Only what the manager asks the accessory and the platform
+    const deviceInfo = await client.getInfo();
+    speaker = {
+      getHost: () => LEFT,
+      getAccessoryName: () => 'Left',
+      getMac: () => LEFT_MAC,
+      getDeviceInfo: () => deviceInfo,
+      getClient: () => client,
+    } as unknown as SoundTouchAccessory;
+    platform = {
+      log,
+      config,
+      api: { user: { storagePath: () => storagePath } },
+      getAllAccessories: () => [speaker],
+    } as unknown as SoundTouchPlatform;
+  });
+
+  afterEach(async () => {
+    client.destroy();
+    await Promise.all([left.stop(), right.stop()]);
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  const readState = () => JSON.parse(fs.readFileSync(path.join(storagePath, 'bose-soundtouch-stereo-pairs.json'), 'utf-8'));
+  const roles = () => left.state.group?.roles.map(r => `${r.role} ${r.deviceId} ${r.ipAddress}`);
+
+  // Manager with the right speaker known from discovery, bonded once the left one is ready
+  async function bonded(): Promise<StereoPairManager> {
+    const manager = new StereoPairManager(platform);
+    manager.addRightSpeaker(PAIR, { host: RIGHT, name: 'Right' });
+    manager.handleSpeakerReady(speaker);
+    await until(() => fs.existsSync(path.join(storagePath, 'bose-soundtouch-stereo-pairs.json')));
+    return manager;
+  }
+
+  it('bonds the pair when the left speaker is ready', async () => {
+    await bonded();
+    assert.equal(left.state.group?.name, 'Living Room');
+    assert.equal(left.state.group?.masterDeviceId, LEFT_MAC);
+    assert.deepEqual(roles(), [`LEFT ${LEFT_MAC} ${LEFT}`, `RIGHT ${RIGHT_MAC} ${RIGHT}`]);
+    // The right speaker has the same group
+    assert.equal(right.state.group?.name, 'Living Room');
+
+    assert.deepEqual(readState(), { [LEFT_MAC]: 'Living Room' });
+  });
+
+  it('leaves a pair alone that is set up already', async () => {
+    const manager = await bonded();
+    const groupRequests = () => left.requests.filter(r => /^\/(add|update)Group$/.test(r.path)).length;
+    const before = groupRequests();
+    manager.handleSpeakerReady(speaker);
+    await until(() => log.messages.some(m => m.includes('already set up')));
+    assert.equal(groupRequests(), before);
+  });
+
+  it('bonds again after the pair was dissolved elsewhere', async () => {
+    const manager = await bonded();
+    await client.removeGroup();
+    assert.equal(left.state.group, null);
+
+    manager.handleGroupUpdate(speaker, { roles: [] });
+    await until(() => left.state.group !== null);
+    assert.deepEqual(roles(), [`LEFT ${LEFT_MAC} ${LEFT}`, `RIGHT ${RIGHT_MAC} ${RIGHT}`]);
+    assert.ok(log.messages.some(m => m.startsWith('warn Stereo pair "Living Room" was dissolved')));
+  });
+
+  it('follows a new IP address of the right speaker', async () => {
+    const manager = await bonded();
+    await right.stop();
+    right = new SoundTouchSimulator({ host: RIGHT_NEW_IP, deviceID: RIGHT_MAC, name: 'Right' });
+    await right.start();
+
+    assert.equal(manager.updateRightSpeakerHost('a0f6fd00000c', RIGHT_NEW_IP), false);
+    assert.equal(manager.updateRightSpeakerHost(RIGHT_MAC.toLowerCase(), RIGHT_NEW_IP), true);
+    await until(() => log.messages.includes('info Stereo pair "Living Room" updated'));
+    assert.deepEqual(roles(), [`LEFT ${LEFT_MAC} ${LEFT}`, `RIGHT ${RIGHT_MAC} ${RIGHT_NEW_IP}`]);
+  });
+
+  it('dissolves a pair that was removed from the config', async () => {
+    await bonded();
+    config.stereoPairs = [];
+    new StereoPairManager(platform).handleSpeakerReady(speaker);
+    await until(() => left.state.group === null);
+    await until(() => Object.keys(readState()).length === 0);
+    assert.ok(log.messages.includes('info Stereo pair "Living Room" is no longer configured and was dissolved'));
+  });
+
+  it('keeps a pair made in the SoundTouch app', async () => {
+    await bonded();
+    await client.updateGroup({ ...(await client.getGroup())!, name: 'From the app' });
+    config.stereoPairs = [];
+    new StereoPairManager(platform).handleSpeakerReady(speaker);
+    await until(() => Object.keys(readState()).length === 0);
+    assert.equal(left.state.group?.name, 'From the app');
+  });
+});
@@ -0,0 +1,105 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { StreamRelay } from '../src/streamRelay';
+import { createLogger } from './testLogger';
+
+const UPSTREAM_METAINT = 100;
+const TITLE = 'StreamTitle=\'Artist - Song\';';
+const CYCLES = 200; // 20 000 bytes of audio, more than one relay metadata interval
+
+// Audio byte i of the stream
+const audioByte = (i: number) => (i * 7) % 251;
+
+// An Icecast station: audio with a metadata block every UPSTREAM_METAINT bytes, the title in the first one
+function icecastBody(): Buffer {
+  const parts: Buffer[] = [];
+  for (let cycle = 0; cycle < CYCLES; cycle++) {
+    parts.push(Buffer.from(Array.from({ length: UPSTREAM_METAINT }, (_, i) => audioByte(cycle * UPSTREAM_METAINT + i))));
+    if (cycle === 0) {
+      const blocks = Math.ceil(TITLE.length / 16);
+      const metadata = Buffer.alloc(1 + blocks * 16);
+      metadata[0] = blocks;
+      metadata.write(TITLE, 1);
+      parts.push(metadata);
+    } else {
+      parts.push(Buffer.from([0]));
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+// Reads the first `length` bytes the relay sends
+function receive(url: string, length: number, headers: http.OutgoingHttpHeaders = {}) {
+  return new Promise<{ headers: http.IncomingHttpHeaders; body: Buffer }>((resolve, reject) => {
+    const req = http.get(url, { headers }, (res) => {
+      const chunks: Buffer[] = [];
+      let received = 0;
+      res.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        received += chunk.length;
+        if (received >= length) {
+          req.destroy();
+          resolve({ headers: res.headers, body: Buffer.concat(chunks).subarray(0, length) });
+        }
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('StreamRelay', () => {
+  let upstream: http.Server;
+  let relayServer: http.Server;
+  let relayUrl: string;
+
+  before(async () => {
+    // Keeps the connection open like a live stream
+    upstream = http.createServer((req, res) => {
+      const wantsMetadata = req.headers['icy-metadata'] === '1';
+      res.writeHead(200, {
+        'Content-Type': 'audio/mpeg',
+        'icy-name': 'Test Radio',
+        ...(wantsMetadata ? { 'icy-metaint': String(UPSTREAM_METAINT) } : {}),
+      });
+      res.write(icecastBody());
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+
+    const relay = new StreamRelay(createLogger(), `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/stream`);
+    relayServer = http.createServer((req, res) => relay.serve(req, res));
+    await new Promise<void>(resolve => relayServer.listen(0, '127.0.0.1', resolve));
+    relayUrl = `http://127.0.0.1:${(relayServer.address() as AddressInfo).port}/relay`;
+  });
+
+  after(() => {
+    relayServer.closeAllConnections();
+    relayServer.close();
+    upstream.closeAllConnections();
+    upstream.close();
+  });
+
+  it('passes the audio through without the station\'s metadata blocks', async () => {
+    const { headers, body } = await receive(relayUrl, 20_000);
+    assert.equal(headers['content-type'], 'audio/mpeg');
+    assert.equal(headers['icy-name'], 'Test Radio');
+    assert.equal(headers['icy-metaint'], undefined);
+    body.forEach((byte, i) => assert.equal(byte, audioByte(i), `byte ${i}`));
+  });
+
+  it('sends the title in its own metadata interval to speakers asking for it', async () => {
+    const { headers, body } = await receive(relayUrl, 16_100, { 'Icy-MetaData': '1' });
+    const interval = parseInt(String(headers['icy-metaint']), 10);
+    assert.equal(interval, 16_000);
+    assert.equal(headers['icy-name'], 'Test Radio');
+
+    for (let i = 0; i < interval; i++) {
+      assert.equal(body[i], audioByte(i), `byte ${i}`);
+    }
+    const blocks = body[interval];
+    const metadata = body.subarray(interval + 1, interval + 1 + blocks * 16).toString('utf-8').replace(/\0+$/, '');
+    assert.equal(metadata, TITLE);
+    assert.equal(body[interval + 1 + blocks * 16], audioByte(interval));
+  });
+});
@@ -0,0 +1,101 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { User } from 'homebridge/lib/user';
+import { SoundTouchPlatform } from '../src/platform';
+import { SoundTouchAccessory } from '../src/soundtouchAccessory';
+import { SoundTouchSimulator } from './soundtouchSimulator';
+import { TestLogger, createLogger } from './testLogger';
+
+const HOST = '127.0.0.14';
+const METAINT = 100;
+const TITLE = 'StreamTitle=\'Artist - Song\';';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function until(condition: () => boolean, timeout = 2000): Promise<void> {
+  for (const end = Date.now() + timeout; !condition(); await delay(10)) {
+    assert.ok(Date.now() < end, 'timed out');
+  }
+}
+
+describe('Song titles of radio presets', () => {
+  const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-title-'));
+  let station: http.Server;
+  let streamUrl: string;
+  let simulator: SoundTouchSimulator;
+  let log: TestLogger;
+  let speaker: SoundTouchAccessory | undefined;
+
+  before(async () => {
+    User.setStoragePath(storagePath);
+    // Sends the title in the first metadata block and keeps the connection open
+    station = http.createServer((req, res) => {
+      const wantsMetadata = req.headers['icy-metadata'] === '1';
+      res.writeHead(200, { 'Content-Type': 'audio/mpeg', ...(wantsMetadata ? { 'icy-metaint': String(METAINT) } : {}) });
+      if (req.method === 'HEAD') {
+        res.end();
+        return;
+      }
+      const metadata = Buffer.alloc(1 + Math.ceil(TITLE.length / 16) * 16);
+      metadata[0] = Math.ceil(TITLE.length / 16);
+      metadata.write(TITLE, 1);
+      res.write(wantsMetadata ? Buffer.concat([Buffer.alloc(METAINT), metadata, Buffer.alloc(METAINT)]) : Buffer.alloc(METAINT));
+    });
+    await new Promise<void>(resolve => station.listen(0, '127.0.0.1', resolve));
+    streamUrl = `http://127.0.0.1:${(station.address() as AddressInfo).port}/live`;
+  });
+
+  after(() => {
+    station.closeAllConnections();
+    station.close();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    simulator = new SoundTouchSimulator({ host: HOST, name: 'Kitchen' });
+    await simulator.start();
+    log = createLogger();
+  });
+
+  afterEach(async () => {
+    speaker?.destroy();
+    speaker = undefined;
+    await simulator.stop();
+  });
+
+  async function playStation(streamTitleOnDisplay: boolean): Promise<SoundTouchAccessory> {
+    const api = new HomebridgeAPI();
+    const platform = new SoundTouchPlatform(log, { platform: 'BoseSoundTouch' }, api);
+    const accessory = new api.platformAccessory('Kitchen', api.hap.uuid.generate(HOST));
+    speaker = new SoundTouchAccessory(platform, accessory, { host: HOST, name: 'Kitchen', streamTitleOnDisplay });
+    await until(() => log.messages.includes(`info Initialized Kitchen (${HOST})`));
+    await speaker['playRadio'](streamUrl, 'Test Radio');
+    return speaker;
+  }
+
+  const sentUrls = () => simulator.requests.filter(r => r.soapAction?.endsWith('#SetAVTransportURI')).length;
+
+  it('follows and logs the song titles', async () => {
+    const kitchen = await playStation(false);
+    await until(() => kitchen.getStreamTitle() !== undefined);
+    assert.deepEqual(kitchen.getStreamTitle(), { artist: 'Artist', title: 'Song', raw: 'Artist - Song' });
+    assert.ok(log.messages.includes('info Kitchen now playing: Artist - Song'));
+
+    // The display keeps the preset name
+    await delay(100);
+    assert.equal(sentUrls(), 1);
+  });
+
+  it('sends the stream again with the song as title for the display', async () => {
+    const kitchen = await playStation(true);
+    await until(() => sentUrls() === 2);
+    assert.equal(kitchen.getStreamTitle()?.raw, 'Artist - Song');
+    assert.match(simulator.state.transportMetadata || '', /Artist - Song/);
+  });
+});
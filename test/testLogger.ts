@@ -0,0 +1,21 @@
+import { Logger } from 'homebridge';
+
+export type TestLogger = Logger & { messages: string[] };
+
+// Logger that keeps the messages ("info Alarm ringing") instead of printing them
+export function createLogger(): TestLogger {
+  const messages: string[] = [];
+  const record = (level: string) => (message: string, ...parameters: unknown[]) => {
+    messages.push([level, message, ...parameters].join(' '));
+  };
+  return Object.assign(record('log'), {
+    messages,
+    prefix: 'test',
+    info: record('info'),
+    success: record('success'),
+    warn: record('warn'),
+    error: record('error'),
+    debug: record('debug'),
+    log: (level: string, message: string, ...parameters: unknown[]) => record(level)(message, ...parameters),
+  }) as unknown as TestLogger;
+}
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ZoneRegistry } from '../src/zoneRegistry';
+
+const KITCHEN = 'A0F6FD000001';
+const BATH = 'A0F6FD000002';
+const OFFICE = 'A0F6FD000003';
+const member = (mac: string) => ({ macaddress: mac.toLowerCase(), ipaddress: `10.0.0.${mac.slice(-1)}` });
+
+describe('ZoneRegistry', () => {
+  it('registers the zone reported by the master', () => {
+    const zones = new ZoneRegistry();
+    const change = zones.update(KITCHEN, { master: KITCHEN, members: [member(KITCHEN), member(BATH)] });
+    assert.deepEqual(change, { changed: true, dissolved: [] });
+    assert.equal(zones.getRole(KITCHEN), 'master');
+    assert.equal(zones.getRole(BATH.toLowerCase()), 'slave');
+    assert.equal(zones.getRole(OFFICE), 'standalone');
+    assert.equal(zones.getZone(BATH)?.master, KITCHEN);
+  });
+
+  it('reports no change for the same zone again', () => {
+    const zones = new ZoneRegistry();
+    zones.update(KITCHEN, { master: KITCHEN, members: [member(KITCHEN), member(BATH)] });
+    assert.equal(zones.update(KITCHEN, { master: KITCHEN, members: [member(KITCHEN), member(BATH)] }).changed, false);
+  });
+
+  it('builds the zone from slave reports before the master reports', () => {
+    const zones = new ZoneRegistry();
+    zones.update(BATH, { master: KITCHEN, members: [member(KITCHEN), member(BATH)] });
+    zones.update(OFFICE, { master: KITCHEN, members: [member(KITCHEN), member(OFFICE)] });
+    assert.deepEqual(zones.getZone(KITCHEN)?.members.map(m => m.macaddress), [KITCHEN, BATH, OFFICE]);
+  });
+
+  it('dissolves a zone when the master reports none', () => {
+    const zones = new ZoneRegistry();
+    zones.update(KITCHEN, { master: KITCHEN, members: [member(KITCHEN), member(BATH)] });
+    assert.deepEqual(zones.update(KITCHEN, { members: [] }), { changed: true, dissolved: [KITCHEN] });
+    assert.equal(zones.getRole(BATH), 'standalone');
+  });
+
+  it('dissolves a zone when its last slave leaves', () => {
+    const zones = new ZoneRegistry();
+    zones.update(KITCHEN, { master: KITCHEN, members: [member(KITCHEN), member(BATH), member(OFFICE)] });
+    zones.update(BATH, { members: [] });
+    assert.equal(zones.getRole(KITCHEN), 'master');
+    assert.deepEqual(zones.update(OFFICE, { members: [] }).dissolved, [KITCHEN]);
+    assert.equal(zones.getRole(KITCHEN), 'standalone');
+  });
+
+  it('moves a speaker that joins another zone', () => {
+    const zones = new ZoneRegistry();
+    zones.update(KITCHEN, { master: KITCHEN, members: [member(KITCHEN), member(BATH)] });
+    zones.update(OFFICE, { master: OFFICE, members: [member(OFFICE), member(BATH)] });
+    assert.equal(zones.getRole(KITCHEN), 'standalone');
+    assert.equal(zones.getZone(BATH)?.master, OFFICE);
+  });
+});